@@ -12,9 +12,22 @@
  */
 
 import { $ } from "bun"
-import { existsSync, readdirSync, statSync } from "fs"
-import { homedir } from "os"
-import { join, basename } from "path"
+import { Database } from "bun:sqlite"
+import {
+  appendFileSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs"
+import { homedir, tmpdir } from "os"
+import { join, basename, dirname, resolve } from "path"
+import { parseArgs } from "util"
 
 // ============================================================
 // Constants & Configuration
@@ -23,20 +36,80 @@ import { join, basename } from "path"
 const INSTALLER_VERSION = "1.0.3"
 const INSTALLER_REPO = "CorentinLumineau/1code-linux"
 
-const CONFIG = {
+interface InstallerConfig {
+  repoUrl: string
+  installerRepoUrl: string
+  installDir: string
+  binDir: string
+  appPath: string
+  sandboxPath: string
+  userAppDir: string
+  configDir: string
+  backupDir: string
+  stateDir: string
+  cacheDir: string
+  maxBackups: number
+  keepDailyBackups: number
+  keepWeeklyBackups: number
+  maxCachedPackages: number
+}
+
+// Defaults - loadUserConfig() applies config file, environment and flag overrides at startup
+const CONFIG: InstallerConfig = {
   repoUrl: "https://github.com/21st-dev/1code.git",
   installerRepoUrl: `https://github.com/${INSTALLER_REPO}`,
   installDir: join(homedir(), ".local/share/1code"),
   binDir: join(homedir(), ".local/bin"),
   appPath: "/opt/1Code/21st-desktop",
   sandboxPath: "/opt/1Code/chrome-sandbox",
+  userAppDir: join(homedir(), ".local/opt/1Code"),
   configDir: join(homedir(), ".config/21st-desktop"),
   backupDir: join(homedir(), ".config/21st-desktop-backups"),
+  stateDir: join(homedir(), ".local/state/1code-linux"),
+  cacheDir: join(homedir(), ".cache/1code-linux"),
   maxBackups: 5,
+  keepDailyBackups: 0,
+  keepWeeklyBackups: 0,
+  maxCachedPackages: 3,
+}
+
+/** Linux package formats electron-builder can produce */
+type PackageFormat = "deb" | "rpm" | "appimage" | "tar"
+
+interface FormatSpec {
+  /** electron-builder target name */
+  target: string
+  /** Artifact extension in release/ */
+  extension: string
+}
+
+const PACKAGE_FORMATS: Record<PackageFormat, FormatSpec> = {
+  deb: { target: "deb", extension: ".deb" },
+  rpm: { target: "rpm", extension: ".rpm" },
+  appimage: { target: "AppImage", extension: ".AppImage" },
+  tar: { target: "tar.gz", extension: ".tar.gz" },
+}
+
+/** System-wide install with sudo, or rootless per-user install */
+type InstallMode = "system" | "user"
+
+// Desktop integration for installs that don't ship their own (AppImage, tarball, user mode)
+const DESKTOP_ENTRY_NAME = "1code.desktop"
+const ICON_NAME = "21st-desktop"
+
+// Exit codes other than plain failure (1), so scripts can tell outcomes apart
+const EXIT_CODES = {
+  /** A prompt needed an answer that can't be given safely without a person */
+  promptRequired: 3,
+  /** 'status' found a newer release than the installed one */
+  updateAvailable: 10,
 } as const
 
+// Chat history and agent state - a SQLite database
+const AGENTS_DB = "data/agents.db"
+
 // Critical files that must exist for settings to be considered valid
-const CRITICAL_SETTINGS_FILES = ["data/agents.db"] as const
+const CRITICAL_SETTINGS_FILES = [AGENTS_DB] as const
 
 // Additional files to display in diagnostics (non-critical)
 const OPTIONAL_SETTINGS_FILES = ["auth.dat", "window-settings.json"] as const
@@ -48,6 +121,17 @@ const DIAGNOSTIC_FILES = [...CRITICAL_SETTINGS_FILES, ...OPTIONAL_SETTINGS_FILES
 // Logger - Single Responsibility for output formatting
 // ============================================================
 
+/** Console output: colored text, plain text (--no-color, NO_COLOR) or one JSON event per line (--json) */
+type OutputMode = "color" | "plain" | "json"
+
+let outputMode: OutputMode = "color"
+
+/** Pick the output mode from --json, --no-color and NO_COLOR (any non-empty value) */
+function configureOutput(flags: { json?: boolean; "no-color"?: boolean }): void {
+  if (flags.json) outputMode = "json"
+  else if (flags["no-color"] || process.env.NO_COLOR) outputMode = "plain"
+}
+
 const colors = {
   reset: "\x1b[0m",
   bold: "\x1b[1m",
@@ -57,20 +141,130 @@ const colors = {
   cyan: "\x1b[36m",
 } as const
 
+/** Wrap text in color codes unless colors are off */
+function paint(text: string, ...codes: string[]): string {
+  return outputMode === "color" ? codes.join("") + text + colors.reset : text
+}
+
+/** Events emitted in --json mode */
+type LogEvent = "log" | "success" | "warning" | "error" | "step-started" | "step-finished" | "result"
+
+/** Print one JSON event line */
+function emitEvent(event: LogEvent, fields: Record<string, unknown>): void {
+  console.log(JSON.stringify({ event, time: new Date().toISOString(), ...fields }))
+}
+
+/** Step in progress, finished by the next step or the end of the run */
+let currentStep: { name: string; startedAt: number; failed: boolean } | null = null
+
+/** Close the current step; in --json mode report how it went */
+function finishStep(): void {
+  if (currentStep && outputMode === "json") {
+    emitEvent("step-finished", {
+      step: currentStep.name,
+      status: currentStep.failed ? "failed" : "ok",
+      durationMs: Date.now() - currentStep.startedAt,
+    })
+  }
+  currentStep = null
+}
+
+/** Lines collected by captureOutput instead of being printed */
+let capturedOutput: string[] | null = null
+
+/** Send a message to the run log and to the console, as text or as a JSON event */
+function writeOutput(event: LogEvent, message: string, text: string, toStderr = false): void {
+  appendRunLog(`${new Date().toISOString()} ${event.padEnd(12)} ${message}\n`)
+  if (capturedOutput) {
+    capturedOutput.push(text)
+  } else if (outputMode === "json") {
+    if (message.trim()) emitEvent(event, { message })
+  } else {
+    ;(toStderr ? console.error : console.log)(text)
+  }
+}
+
 const logger = {
-  log: (msg: string) => console.log(msg),
-  header: (msg: string) => console.log(`${colors.cyan}${colors.bold}${msg}${colors.reset}`),
-  success: (msg: string) => console.log(`${colors.green}✓${colors.reset} ${msg}`),
-  warn: (msg: string) => console.log(`${colors.yellow}⚠${colors.reset} ${msg}`),
-  error: (msg: string) => console.error(`${colors.red}✗${colors.reset} ${msg}`),
-  step: (msg: string) => console.log(`\n${colors.bold}==> ${msg}${colors.reset}`),
+  log: (msg: string) => writeOutput("log", msg, msg),
+  header: (msg: string) => writeOutput("log", msg, paint(msg, colors.cyan, colors.bold)),
+  success: (msg: string) => writeOutput("success", msg, `${paint("✓", colors.green)} ${msg}`),
+  warn: (msg: string) => writeOutput("warning", msg, `${paint("⚠", colors.yellow)} ${msg}`),
+  error: (msg: string) => {
+    if (currentStep) currentStep.failed = true
+    writeOutput("error", msg, `${paint("✗", colors.red)} ${msg}`, true)
+  },
+  step: (msg: string) => {
+    finishStep()
+    currentStep = { name: msg.replace(/\.\.\.$/, ""), startedAt: Date.now(), failed: false }
+    writeOutput("step-started", msg, `\n${paint(`==> ${msg}`, colors.bold)}`)
+  },
   banner: (title: string) => {
+    if (outputMode === "json") return
     logger.header("========================================")
     logger.header(`  ${title}`)
     logger.header(`        Installer v${INSTALLER_VERSION}`)
     logger.header("========================================")
   },
-  divider: () => logger.header("========================================"),
+  divider: () => {
+    if (outputMode !== "json") logger.header("========================================")
+  },
+}
+
+// ============================================================
+// Run Log - each run's messages and subprocess output, kept on disk
+// ============================================================
+
+const LOG_DIR = join(CONFIG.stateDir, "logs")
+const MAX_LOG_FILES = 20
+
+let runLogPath: string | null = null
+
+/** Start this run's log file and drop the oldest ones; written even in dry-run mode */
+function startRunLog(command: string): void {
+  try {
+    mkdirSync(LOG_DIR, { recursive: true })
+    // Milliseconds keep runs started in the same second apart
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 23)
+    runLogPath = join(LOG_DIR, `${timestamp}-${command}.log`)
+    writeFileSync(
+      runLogPath,
+      `# update-1code ${process.argv.slice(2).join(" ")}\n# installer v${INSTALLER_VERSION}, ${new Date().toISOString()}\n`
+    )
+    for (const old of listRunLogs().slice(MAX_LOG_FILES)) rmSync(old, { force: true })
+  } catch {
+    runLogPath = null // Logging must never stop the installer
+  }
+
+  process.on("exit", (code) => {
+    finishStep()
+    appendRunLog(`# exit code ${code}\n`)
+    if (outputMode === "json") emitEvent("result", { ok: code === 0, exitCode: code, log: runLogPath })
+  })
+}
+
+/** Append to this run's log file, if there is one */
+function appendRunLog(text: string): void {
+  if (!runLogPath) return
+  try {
+    appendFileSync(runLogPath, text)
+  } catch {
+    runLogPath = null
+  }
+}
+
+/** Record a subprocess and its full output in the run log */
+function logCommandOutput(script: string, result: ShellResult): void {
+  appendRunLog(`$ ${script}\n${result.stdout}${result.stderr}[exit ${result.exitCode}]\n`)
+}
+
+/** Log files sorted by date (newest first) */
+function listRunLogs(): string[] {
+  if (!existsSync(LOG_DIR)) return []
+  return readdirSync(LOG_DIR)
+    .filter((name) => name.endsWith(".log"))
+    .map((name) => join(LOG_DIR, name))
+    .sort()
+    .reverse()
 }
 
 // ============================================================
@@ -86,6 +280,495 @@ function safeStatSync(path: string): { size: number } | null {
   }
 }
 
+/** Human-readable size, e.g. 1.5 MB */
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"]
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return unit === 0 ? `${bytes} B` : `${value.toFixed(1)} ${units[unit]}`
+}
+
+// ============================================================
+// User Configuration - config file, environment and flag overrides
+// ============================================================
+
+const USER_CONFIG_DIR = join(homedir(), ".config/1code-linux")
+
+/** How a setting is validated: free string, absolute path (~ expanded), positive integer or integer >= 0 */
+type ConfigKind = "string" | "path" | "count" | "limit"
+
+/** Settings users may override, and how to validate them */
+const CONFIG_OPTIONS = {
+  repoUrl: "string",
+  installDir: "path",
+  binDir: "path",
+  appPath: "path",
+  sandboxPath: "path",
+  userAppDir: "path",
+  configDir: "path",
+  backupDir: "path",
+  cacheDir: "path",
+  maxBackups: "count",
+  keepDailyBackups: "limit",
+  keepWeeklyBackups: "limit",
+  maxCachedPackages: "count",
+} as const satisfies Partial<Record<keyof InstallerConfig, ConfigKind>>
+
+type ConfigKey = keyof typeof CONFIG_OPTIONS
+
+/** Where each effective setting came from, for 'config show' */
+const CONFIG_SOURCES: Record<string, string> = {}
+
+/** Environment variable for a setting: installDir -> ONECODE_INSTALL_DIR */
+function configEnvName(key: ConfigKey): string {
+  return "ONECODE_" + key.replace(/[A-Z]/g, (c) => "_" + c).toUpperCase()
+}
+
+/** CLI flag for a setting: installDir -> install-dir */
+function configFlagName(key: ConfigKey): string {
+  return key.replace(/[A-Z]/g, (c) => "-" + c.toLowerCase())
+}
+
+/** Validate one setting, returns the parsed value or an error message */
+function parseConfigValue(key: ConfigKey, raw: unknown): { value: string | number } | { error: string } {
+  const kind: ConfigKind = CONFIG_OPTIONS[key]
+
+  if (kind === "count" || kind === "limit") {
+    const min = kind === "count" ? 1 : 0
+    const value = typeof raw === "string" && /^\d+$/.test(raw.trim()) ? Number(raw) : raw
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+      return { error: `${key} must be a whole number of at least ${min}, got ${JSON.stringify(raw)}` }
+    }
+    return { value }
+  }
+
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return { error: `${key} must be a non-empty string, got ${JSON.stringify(raw)}` }
+  }
+  if (kind === "path") {
+    const value = raw.replace(/^~(?=$|\/)/, homedir())
+    if (!value.startsWith("/")) {
+      return { error: `${key} must be an absolute path (or start with ~/), got "${raw}"` }
+    }
+    // Install, cache and staging directories get deleted wholesale: never /, the home directory or above it
+    const path = resolve(value)
+    if (path === "/" || `${resolve(homedir())}/`.startsWith(`${path}/`)) {
+      return { error: `${key} must be a directory of its own, not "${raw}"` }
+    }
+    return { value }
+  }
+  return { value: raw }
+}
+
+/** Find the user config file, preferring JSON over TOML */
+function findUserConfigFile(): string | null {
+  const candidates = ["config.json", "config.toml"].map((f) => join(USER_CONFIG_DIR, f))
+  const found = candidates.filter((f) => existsSync(f))
+  if (found.length > 1) {
+    logger.warn(`Both ${basename(found[0])} and ${basename(found[1])} exist, using ${basename(found[0])}`)
+  }
+  return found[0] ?? null
+}
+
+/** Read the user config file, returns the raw settings or an error message */
+function readUserConfigFile(path: string): { settings: Record<string, unknown> } | { error: string } {
+  let parsed: unknown
+  try {
+    const text = readFileSync(path, "utf8")
+    parsed = path.endsWith(".toml") ? Bun.TOML.parse(text) : JSON.parse(text)
+  } catch (err) {
+    return { error: `Cannot parse ${path}: ${err instanceof Error ? err.message : String(err)}` }
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return { error: `${path} must contain an object of settings` }
+  }
+  return { settings: parsed as Record<string, unknown> }
+}
+
+/** Apply config file, then environment, then CLI flag overrides to CONFIG */
+function loadUserConfig(flags: Record<string, unknown>): void {
+  const errors: string[] = []
+  const keys = Object.keys(CONFIG_OPTIONS) as ConfigKey[]
+  keys.forEach((key) => (CONFIG_SOURCES[key] = "default"))
+
+  const apply = (key: ConfigKey, raw: unknown, source: string) => {
+    const result = parseConfigValue(key, raw)
+    if ("error" in result) {
+      errors.push(`${source}: ${result.error}`)
+    } else {
+      Object.assign(CONFIG, { [key]: result.value })
+      CONFIG_SOURCES[key] = source
+    }
+  }
+
+  const file = findUserConfigFile()
+  if (file) {
+    const result = readUserConfigFile(file)
+    if ("error" in result) {
+      errors.push(result.error)
+    } else {
+      for (const [key, raw] of Object.entries(result.settings)) {
+        if (Object.hasOwn(CONFIG_OPTIONS, key)) {
+          apply(key as ConfigKey, raw, file)
+        } else {
+          errors.push(`${file}: unknown setting "${key}" (valid: ${keys.join(", ")})`)
+        }
+      }
+    }
+  }
+
+  for (const key of keys) {
+    const env = process.env[configEnvName(key)]
+    if (env !== undefined) apply(key, env, `$${configEnvName(key)}`)
+  }
+
+  for (const key of keys) {
+    const flag = flags[configFlagName(key)]
+    if (flag !== undefined) apply(key, flag, `--${configFlagName(key)}`)
+  }
+
+  // The sandbox helper sits next to the app unless configured separately
+  if (CONFIG_SOURCES.sandboxPath === "default" && CONFIG_SOURCES.appPath !== "default") {
+    CONFIG.sandboxPath = join(dirname(CONFIG.appPath), "chrome-sandbox")
+    CONFIG_SOURCES.sandboxPath = "derived from appPath"
+  }
+
+  if (errors.length > 0) {
+    logger.error("Invalid configuration:")
+    errors.forEach((e) => logger.log(`    ${e}`))
+    process.exit(1)
+  }
+}
+
+/** Print each effective setting and where it came from */
+function showConfig(): void {
+  const file = findUserConfigFile()
+  logger.header("Effective configuration:")
+  logger.log(`  Config file: ${file ?? `none (${join(USER_CONFIG_DIR, "config.json")})`}`)
+  logger.log("")
+
+  const keys = Object.keys(CONFIG_OPTIONS) as ConfigKey[]
+  const width = Math.max(...keys.map((k) => k.length))
+  for (const key of keys) {
+    logger.log(`  ${key.padEnd(width)}  ${CONFIG[key]}  (${CONFIG_SOURCES[key]})`)
+  }
+}
+
+// ============================================================
+// Prompts - interactive, or answered by --yes/--no/--non-interactive
+// ============================================================
+
+/**
+ * How prompts are answered:
+ * - ask: read from the terminal
+ * - yes/no: confirm or decline every question
+ * - defaults: take each question's default answer
+ */
+type PromptMode = "ask" | "yes" | "no" | "defaults"
+
+let promptMode: PromptMode = "ask"
+
+/** True when an environment variable is set to a truthy value */
+function envFlag(name: string): boolean {
+  const value = process.env[name]?.toLowerCase()
+  return value === "1" || value === "true" || value === "yes"
+}
+
+/** Pick the prompt mode from CLI flags, falling back to ONECODE_* environment variables */
+function configurePrompts(flags: { yes?: boolean; no?: boolean; "non-interactive"?: boolean }): void {
+  const yes = flags.yes ?? envFlag("ONECODE_YES")
+  const no = flags.no ?? envFlag("ONECODE_NO")
+  if (yes && no) {
+    logger.error("--yes and --no cannot be combined")
+    process.exit(1)
+  }
+  if (yes) promptMode = "yes"
+  else if (no) promptMode = "no"
+  // Nobody reads questions from a JSON event stream
+  else if (flags["non-interactive"] ?? (envFlag("ONECODE_NON_INTERACTIVE") || outputMode === "json")) {
+    promptMode = "defaults"
+  }
+}
+
+/** Fail a prompt that can't be answered without a person */
+function failPrompt(question: string, hint: string): never {
+  logger.error(`Cannot answer "${question}" in non-interactive mode`)
+  logger.log(`    ${hint}`)
+  process.exit(EXIT_CODES.promptRequired)
+}
+
+interface ConfirmOptions {
+  /** Answer for an empty reply and in --non-interactive mode */
+  default: boolean
+  /** Not auto-confirmed by --yes: a person or this flag must opt in */
+  destructiveFlag?: string
+}
+
+/** Ask a yes/no question, answered automatically in scripted modes */
+function confirm(question: string, options: ConfirmOptions): boolean {
+  const answer = (value: boolean) => {
+    logger.log(`${question} ${value ? "yes" : "no"} (${promptMode === "defaults" ? "default" : `--${promptMode}`})`)
+    return value
+  }
+
+  switch (promptMode) {
+    case "yes":
+      if (options.destructiveFlag) {
+        failPrompt(question, `--yes does not confirm destructive actions; pass ${options.destructiveFlag}`)
+      }
+      return answer(true)
+    case "no":
+      return answer(false)
+    case "defaults":
+      return answer(options.default)
+    case "ask": {
+      const response = prompt(`${question} ${options.default ? "[Y/n]" : "[y/N]"} `)?.trim().toLowerCase()
+      if (response === "y" || response === "yes") return true
+      if (response === "n" || response === "no") return false
+      return options.default
+    }
+  }
+}
+
+/** Ask for free-form input, failing in scripted modes with a hint on how to pass it instead */
+function ask(question: string, hint: string): string | null {
+  if (promptMode !== "ask") failPrompt(question, hint)
+  return prompt(question)
+}
+
+// ============================================================
+// Installer State - remembers choices between runs
+// ============================================================
+
+/** A release installed by this installer */
+interface InstalledRelease {
+  tag: string
+  format: PackageFormat
+  installedAt: string
+  /** Cached copy of the package that was installed */
+  artifact?: string
+  /** Settings backup taken right before this release was installed */
+  backup?: string
+  /** SHA-256 of the installed package, to notice later changes to it or the installed files */
+  sha256?: string
+}
+
+interface InstallerState {
+  format?: PackageFormat
+  mode?: InstallMode
+  /** Tag that install/update stick to instead of the latest */
+  pinnedTag?: string
+  /** Release channel install/update follow */
+  channel?: Channel
+  /** Git URL or local checkout to build from instead of repoUrl */
+  source?: string
+  /** Branch, tag or commit install/update follow instead of the channel */
+  ref?: string
+  /** Installed releases, oldest first */
+  history?: InstalledRelease[]
+  /** Backup names that retention never deletes */
+  pinnedBackups?: string[]
+  /** Commit each tag pointed at when it was last built, to notice moved tags */
+  tagCommits?: Record<string, string>
+}
+
+const STATE_FILE = join(CONFIG.stateDir, "state.json")
+
+/** Load persisted installer state, returns empty state if missing or unreadable */
+function loadState(): InstallerState {
+  try {
+    return JSON.parse(readFileSync(STATE_FILE, "utf8")) as InstallerState
+  } catch {
+    return {}
+  }
+}
+
+/** Merge changes into the persisted installer state */
+async function saveState(changes: Partial<InstallerState>): Promise<void> {
+  await sh`mkdir -p ${CONFIG.stateDir}`
+  await runner.writeFile(STATE_FILE, JSON.stringify({ ...loadState(), ...changes }, null, 2) + "\n")
+}
+
+// ============================================================
+// Release History - installed versions and cached packages
+// ============================================================
+
+const MAX_HISTORY = 10
+
+/** Copy a built package into the cache so it can be reinstalled without rebuilding */
+async function cachePackage(tag: string, artifact: string): Promise<string> {
+  const dir = join(CONFIG.cacheDir, "packages", tag)
+  const cached = join(dir, basename(artifact))
+  await sh`mkdir -p ${dir}`
+  await sh`cp ${artifact} ${cached}`
+  return cached
+}
+
+/** Record an installed release and drop cached packages no longer referenced */
+async function recordInstall(release: InstalledRelease): Promise<void> {
+  const history = (loadState().history ?? []).filter((r) => r.tag !== release.tag)
+  history.push(release)
+  const trimmed = history.slice(-MAX_HISTORY)
+  await saveState({ history: trimmed })
+
+  // Keep packages only for the most recent releases
+  const keep = new Set(trimmed.slice(-CONFIG.maxCachedPackages).map((r) => r.tag))
+  const packagesDir = join(CONFIG.cacheDir, "packages")
+  if (!existsSync(packagesDir)) return
+  for (const tag of readdirSync(packagesDir)) {
+    if (!keep.has(tag)) await sh`rm -rf ${join(packagesDir, tag)}`.nothrow()
+  }
+}
+
+/** The current release and the one installed before it, if any */
+function recentReleases(): { current?: InstalledRelease; previous?: InstalledRelease } {
+  const history = loadState().history ?? []
+  return { current: history.at(-1), previous: history.at(-2) }
+}
+
+// ============================================================
+// Command Runner - every shell call and file write goes through here
+// ============================================================
+
+interface ShellResult {
+  exitCode: number
+  stdout: string
+  stderr: string
+}
+
+interface ShellOptions {
+  quiet: boolean
+  nothrow: boolean
+  /** Safe to run in dry-run mode: only inspects the system */
+  readOnly: boolean
+  cwd?: string
+}
+
+/** A shell command built with the sh`...` tag, run by the active runner when awaited */
+class ShellCommand implements PromiseLike<ShellResult> {
+  readonly options: ShellOptions = { quiet: false, nothrow: false, readOnly: false }
+
+  constructor(readonly script: string) {}
+
+  quiet(): this {
+    this.options.quiet = true
+    return this
+  }
+
+  nothrow(): this {
+    this.options.nothrow = true
+    return this
+  }
+
+  readOnly(): this {
+    this.options.readOnly = true
+    return this
+  }
+
+  cwd(dir: string): this {
+    this.options.cwd = dir
+    return this
+  }
+
+  /** Run quietly and return stdout */
+  async text(): Promise<string> {
+    return (await this.quiet()).stdout
+  }
+
+  then<T1 = ShellResult, T2 = never>(
+    onfulfilled?: ((value: ShellResult) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return runner.run(this).then(onfulfilled, onrejected)
+  }
+}
+
+/** Quote an interpolated value; arrays expand to several arguments, { raw } is inserted as-is */
+function renderShellValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(renderShellValue).join(" ")
+  if (typeof value === "object" && value !== null && "raw" in value) return String(value.raw)
+  return $.escape(String(value))
+}
+
+/** Build a shell command, with the same interpolation rules as Bun's $ */
+function sh(strings: TemplateStringsArray, ...values: unknown[]): ShellCommand {
+  const script = strings.reduce(
+    (out, str, i) => out + str + (i < values.length ? renderShellValue(values[i]) : ""),
+    ""
+  )
+  return new ShellCommand(script)
+}
+
+/** Executes commands and file-system side effects */
+interface CommandRunner {
+  /** True when side effects are only printed */
+  readonly dryRun: boolean
+  run(command: ShellCommand): Promise<ShellResult>
+  writeFile(path: string, content: string | Uint8Array): Promise<void>
+  makeTempDir(): string
+  chdir(dir: string): void
+}
+
+/** Runs everything for real with Bun's shell */
+const bunRunner: CommandRunner = {
+  dryRun: false,
+  async run(command) {
+    let shell = $`${{ raw: command.script }}`.nothrow()
+    if (command.options.cwd) shell = shell.cwd(command.options.cwd)
+    // Subprocess output would break the event stream; it still reaches the run log
+    if (command.options.quiet || outputMode === "json") shell = shell.quiet()
+    const output = await shell
+    const result = { exitCode: output.exitCode, stdout: output.stdout.toString(), stderr: output.stderr.toString() }
+    logCommandOutput(command.script, result)
+    if (result.exitCode !== 0 && !command.options.nothrow) {
+      throw new Error(`Command failed with exit code ${result.exitCode}: ${command.script}`)
+    }
+    return result
+  },
+  async writeFile(path, content) {
+    await Bun.write(path, content)
+  },
+  makeTempDir() {
+    return mkdtempSync(join(tmpdir(), "1code-"))
+  },
+  chdir(dir) {
+    process.chdir(dir)
+  },
+}
+
+/** Prints side effects instead of running them; read-only checks still run */
+const dryRunRunner: CommandRunner = {
+  dryRun: true,
+  async run(command) {
+    if (command.options.readOnly) return bunRunner.run(command)
+    const where = command.options.cwd ? ` (in ${command.options.cwd})` : ""
+    logger.log(`    [dry-run] $ ${command.script}${where}`)
+    return { exitCode: 0, stdout: "", stderr: "" }
+  },
+  async writeFile(path, content) {
+    logger.log(`    [dry-run] write ${path} (${content.length} bytes)`)
+  },
+  makeTempDir() {
+    return join(tmpdir(), "1code-dry-run")
+  },
+  chdir(dir) {
+    logger.log(`    [dry-run] cd ${dir}`)
+    // Follow along when possible so read-only checks inspect the right checkout
+    if (existsSync(dir)) process.chdir(dir)
+  },
+}
+
+let runner: CommandRunner = bunRunner
+
+/** Swap the runner, e.g. for --dry-run */
+function useRunner(next: CommandRunner): void {
+  runner = next
+}
+
 // ============================================================
 // Command Execution Utilities
 // ============================================================
@@ -93,7 +776,7 @@ function safeStatSync(path: string): { size: number } | null {
 /** Check if a command exists in PATH */
 async function hasCommand(cmd: string): Promise<boolean> {
   try {
-    await $`which ${cmd}`.quiet()
+    await sh`which ${cmd}`.readOnly().quiet()
     return true
   } catch {
     return false
@@ -103,7 +786,7 @@ async function hasCommand(cmd: string): Promise<boolean> {
 /** Check if a Python module is available */
 async function hasPythonModule(module: string): Promise<boolean> {
   try {
-    await $`python3 -c "import ${module}"`.quiet()
+    await sh`python3 -c ${`import ${module}`}`.readOnly().quiet()
     return true
   } catch {
     return false
@@ -113,7 +796,7 @@ async function hasPythonModule(module: string): Promise<boolean> {
 /** Get Python version string */
 async function getPythonVersion(): Promise<string> {
   try {
-    return (await $`python3 --version`.text()).trim()
+    return (await sh`python3 --version`.readOnly().text()).trim()
   } catch {
     return "not installed"
   }
@@ -122,7 +805,7 @@ async function getPythonVersion(): Promise<string> {
 /** Check if a process is running by name */
 async function isProcessRunning(processName: string): Promise<boolean> {
   try {
-    await $`pgrep -x ${processName}`.quiet()
+    await sh`pgrep -x ${processName}`.readOnly().quiet()
     return true
   } catch {
     return false
@@ -144,95 +827,377 @@ interface RestoreResult {
   error?: string
 }
 
+/** One file stored in a backup archive */
+interface BackupFileEntry {
+  path: string
+  size: number
+  sha256: string
+}
+
+/** Describes a backup archive; stored inside it as manifest.json */
+interface BackupManifest {
+  formatVersion: 1
+  createdAt: string
+  installerVersion: string
+  /** 1Code version the settings were taken from */
+  appVersion: string
+  files: BackupFileEntry[]
+  /** Paths deliberately left out, e.g. auth.dat in exports */
+  excluded?: string[]
+}
+
+const BACKUP_MANIFEST = "manifest.json"
+const BACKUP_EXTENSIONS = [".tar.zst", ".tar.gz"] as const
+
+/** True for backup archives; older backups are plain directories */
+function isBackupArchive(path: string): boolean {
+  return BACKUP_EXTENSIONS.some((ext) => path.endsWith(ext))
+}
+
 /** List available backups sorted by date (newest first) */
 function listBackups(): string[] {
   if (!existsSync(CONFIG.backupDir)) return []
   return readdirSync(CONFIG.backupDir, { withFileTypes: true })
-    .filter((e) => e.isDirectory() && e.name.startsWith("backup-"))
+    .filter((e) => e.name.startsWith("backup-") && (e.isDirectory() || isBackupArchive(e.name)))
     .map((e) => join(CONFIG.backupDir, e.name))
     .sort()
     .reverse()
 }
 
-/** Remove old backups to maintain maxBackups limit */
-async function rotateBackups(): Promise<void> {
-  const backups = listBackups()
-  // Keep maxBackups - 1 since we're about to create a new one
-  for (const backup of backups.slice(CONFIG.maxBackups - 1)) {
-    await $`rm -rf ${backup}`.nothrow()
-  }
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** When a backup was taken, from its name (backup-2025-01-31T12-00-00...), null if unparseable */
+function backupTime(path: string): number | null {
+  const match = basename(path).match(/^backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})/)
+  if (!match) return null
+  const time = Date.parse(`${match[1]}T${match[2]}:${match[3]}:${match[4]}Z`)
+  return Number.isNaN(time) ? null : time
 }
 
-/** Verify a backup was created successfully */
-function verifyBackup(backupPath: string): boolean {
-  // Check that at least the critical files were copied
-  for (const file of CRITICAL_SETTINGS_FILES) {
-    const sourcePath = join(CONFIG.configDir, file)
-    const backupFilePath = join(backupPath, file)
-    // Only verify files that exist in source
-    if (existsSync(sourcePath) && !existsSync(backupFilePath)) {
-      return false
+/** True if a backup is pinned and must never be rotated */
+function isPinnedBackup(path: string): boolean {
+  return (loadState().pinnedBackups ?? []).includes(basename(path))
+}
+
+/**
+ * Backups the retention policy no longer keeps. Kept: the newest maxBackups, the newest
+ * backup of each of the last keepDailyBackups days and keepWeeklyBackups weeks, pinned ones
+ */
+function backupsToPrune(protect: string[] = []): string[] {
+  const backups = listBackups() // newest first
+  const kept = new Set([...protect, ...backups.slice(0, CONFIG.maxBackups)])
+
+  // Keep the first (newest) backup seen in each of the most recent buckets
+  const keepNewestPer = (bucketOf: (day: number) => number, count: number) => {
+    const current = bucketOf(Math.floor(Date.now() / DAY_MS))
+    const seen = new Set<number>()
+    for (const backup of backups) {
+      const time = backupTime(backup)
+      if (time === null) continue
+      const bucket = bucketOf(Math.floor(time / DAY_MS))
+      if (bucket > current - count && !seen.has(bucket)) {
+        seen.add(bucket)
+        kept.add(backup)
+      }
     }
   }
-  return true
+  keepNewestPer((day) => day, CONFIG.keepDailyBackups)
+  // Day 0 was a Thursday: shift by 3 so weeks start on Monday
+  keepNewestPer((day) => Math.floor((day + 3) / 7), CONFIG.keepWeeklyBackups)
+
+  return backups.filter((b) => !kept.has(b) && !isPinnedBackup(b))
 }
 
-/** Create a backup of current settings */
-async function backupSettings(): Promise<BackupResult> {
-  if (!existsSync(CONFIG.configDir)) {
-    return { success: true } // Nothing to backup is not an error
+/** Delete backups outside the retention policy, never touching protected ones; returns what was deleted */
+async function rotateBackups(protect: string[] = []): Promise<string[]> {
+  const pruned = backupsToPrune(protect)
+  for (const backup of pruned) {
+    await sh`rm -rf ${backup}`.nothrow()
   }
+  return pruned
+}
 
-  try {
-    await rotateBackups()
-
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19)
-    const backupPath = join(CONFIG.backupDir, `backup-${timestamp}`)
+/** Private scratch directory for reading backups; created even in dry-run mode */
+function scratchDir(): string {
+  return mkdtempSync(join(tmpdir(), "1code-backup-"))
+}
 
-    await $`mkdir -p ${backupPath}`
-    const result = await $`cp -r ${CONFIG.configDir}/* ${backupPath}/`.nothrow()
+/** SHA-256 of a file, hex encoded */
+function sha256File(path: string): string {
+  return new Bun.CryptoHasher("sha256").update(readFileSync(path)).digest("hex")
+}
 
-    if (result.exitCode !== 0) {
-      return { success: false, error: "Copy command failed" }
-    }
+/** All regular files under a directory, as sorted relative paths; symlinks (e.g. Chromium's Singleton* locks) are skipped */
+function listFilesRecursive(dir: string): string[] {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir, { recursive: true, encoding: "utf8" })
+    .filter((path) => lstatSync(join(dir, path)).isFile())
+    .sort()
+}
 
-    if (!verifyBackup(backupPath)) {
-      return { success: false, path: backupPath, error: "Backup verification failed" }
-    }
+/** Unpack a backup (or use a legacy backup directory as-is) for the duration of a callback */
+async function withBackupContents<T>(backupPath: string, fn: (dir: string) => Promise<T>): Promise<T> {
+  if (!isBackupArchive(backupPath)) return fn(backupPath)
 
-    return { success: true, path: backupPath }
-  } catch (err) {
-    return { success: false, error: String(err) }
+  const dir = scratchDir()
+  try {
+    await sh`tar -xf ${backupPath} -C ${dir}`.readOnly().quiet()
+    return await fn(dir)
+  } finally {
+    await sh`rm -rf ${dir}`.readOnly().quiet().nothrow()
   }
 }
 
-/** Restore settings from a backup */
-async function restoreSettings(backupPath: string): Promise<RestoreResult> {
-  if (!existsSync(backupPath)) {
-    return { success: false, error: "Backup path does not exist" }
+/** Read the manifest of an unpacked backup, null for legacy backups */
+function readBackupManifest(dir: string): BackupManifest | null {
+  try {
+    return JSON.parse(readFileSync(join(dir, BACKUP_MANIFEST), "utf8")) as BackupManifest
+  } catch {
+    return null
   }
+}
 
-  try {
-    await $`mkdir -p ${CONFIG.configDir}`
-    const result = await $`cp -r ${backupPath}/* ${CONFIG.configDir}/`.nothrow()
+/** Check an unpacked backup: checksums against the manifest, and the database snapshot's integrity */
+function verifyBackupContents(dir: string): string[] {
+  const manifest = readBackupManifest(dir)
 
-    if (result.exitCode !== 0) {
-      return { success: false, error: "Copy command failed" }
-    }
+  // Legacy directory backups have no manifest: check the critical files were copied
+  if (!manifest) {
+    return CRITICAL_SETTINGS_FILES.filter(
+      (file) => existsSync(join(CONFIG.configDir, file)) && !existsSync(join(dir, file))
+    ).map((file) => `${file} missing`)
+  }
 
-    // Verify restore succeeded
-    const { ok } = verifySettings()
-    if (!ok) {
-      return { success: false, error: "Restore verification failed" }
+  const errors: string[] = []
+  for (const entry of manifest.files) {
+    const path = join(dir, entry.path)
+    const stats = safeStatSync(path)
+    if (!stats) {
+      errors.push(`${entry.path} missing`)
+    } else if (stats.size !== entry.size) {
+      errors.push(`${entry.path} size ${stats.size}, expected ${entry.size}`)
+    } else if (sha256File(path) !== entry.sha256) {
+      errors.push(`${entry.path} checksum mismatch`)
     }
+  }
 
-    return { success: true }
-  } catch (err) {
-    return { success: false, error: String(err) }
+  const db = join(dir, AGENTS_DB)
+  if (existsSync(db)) {
+    const integrity = checkDatabaseIntegrity(db)
+    if (integrity !== "ok") errors.push(`${AGENTS_DB} integrity check: ${integrity}`)
   }
+  return errors
 }
 
-/** Verify critical settings files exist */
+/** Verify a backup: recompute checksums and check the database snapshot */
+async function verifyBackup(backupPath: string): Promise<string[]> {
+  return withBackupContents(backupPath, async (dir) => verifyBackupContents(dir))
+}
+
+/** 1Code version the current settings belong to, for the backup manifest */
+function installedAppVersion(): string {
+  return loadState().history?.at(-1)?.tag ?? "unknown"
+}
+
+interface BackupOptions {
+  /** Appended to the backup name, e.g. "pre-restore" */
+  label?: string
+  /** Backups rotation must not delete, e.g. the one about to be restored */
+  protect?: string[]
+}
+
+/** Path for a new backup taken now, e.g. backup-2025-01-31T12-00-00-pre-restore.tar.zst */
+function newBackupPath(extension: string, label?: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19)
+  return join(CONFIG.backupDir, `backup-${timestamp}${label ? `-${label}` : ""}${extension}`)
+}
+
+/** Archive the current settings with a manifest, leaving out excluded paths; returns an error or null */
+async function writeBackupArchive(archive: string, exclude: string[] = []): Promise<string | null> {
+  const staging = runner.makeTempDir()
+  try {
+    // Copy everything including dotfiles, then replace the live database with a consistent snapshot
+    const result = await sh`cp -a ${CONFIG.configDir}/. ${staging}/`.nothrow()
+    if (result.exitCode !== 0) {
+      return "Copy command failed"
+    }
+    for (const path of exclude) {
+      await sh`rm -rf ${join(staging, path)}`
+    }
+    const db = join(CONFIG.configDir, AGENTS_DB)
+    if (existsSync(db)) {
+      const target = join(staging, AGENTS_DB)
+      await sh`rm -f ${target} ${target}-wal ${target}-shm ${target}-journal`
+      await runner.writeFile(target, snapshotDatabase(db))
+    }
+
+    const manifest: BackupManifest = {
+      formatVersion: 1,
+      createdAt: new Date().toISOString(),
+      installerVersion: INSTALLER_VERSION,
+      appVersion: installedAppVersion(),
+      files: listFilesRecursive(staging).map((path) => ({
+        path,
+        size: statSync(join(staging, path)).size,
+        sha256: sha256File(join(staging, path)),
+      })),
+      ...(exclude.length > 0 && { excluded: exclude }),
+    }
+    await runner.writeFile(join(staging, BACKUP_MANIFEST), JSON.stringify(manifest, null, 2) + "\n")
+
+    await sh`mkdir -p ${dirname(archive)}`
+    const archived = await sh`tar -caf ${archive} -C ${staging} .`.nothrow()
+    if (archived.exitCode !== 0) {
+      return "Creating the archive failed"
+    }
+
+    if (!runner.dryRun) {
+      const errors = await verifyBackup(archive)
+      if (errors.length > 0) {
+        return `Backup verification failed: ${errors.join("; ")}`
+      }
+    }
+    return null
+  } finally {
+    await sh`rm -rf ${staging}`.nothrow()
+  }
+}
+
+/** Create a backup of current settings as a compressed, checksummed archive */
+async function backupSettings(options: BackupOptions = {}): Promise<BackupResult> {
+  if (!existsSync(CONFIG.configDir)) {
+    return { success: true } // Nothing to backup is not an error
+  }
+
+  try {
+    const extension = (await hasCommand("zstd")) ? ".tar.zst" : ".tar.gz"
+    const backupPath = newBackupPath(extension, options.label)
+
+    const error = await writeBackupArchive(backupPath)
+    if (error) {
+      return { success: false, path: backupPath, error }
+    }
+
+    // Only make room once the new backup is known to be good
+    await rotateBackups([...(options.protect ?? []), backupPath])
+
+    return { success: true, path: backupPath }
+  } catch (err) {
+    return { success: false, error: String(err) }
+  }
+}
+
+/** Paths a backup holds, relative to the config directory (manifest excluded) */
+function backupPaths(dir: string): string[] {
+  return listFilesRecursive(dir).filter((path) => path !== BACKUP_MANIFEST)
+}
+
+/** Restore settings from a backup, optionally only some paths; the current state is backed up first */
+async function restoreSettings(backupPath: string, only?: string[]): Promise<RestoreResult> {
+  if (!existsSync(backupPath)) {
+    return { success: false, error: "Backup path does not exist" }
+  }
+
+  try {
+    return await withBackupContents(backupPath, async (dir) => {
+      const errors = verifyBackupContents(dir)
+      if (errors.length > 0) {
+        return { success: false, error: `Backup is damaged: ${errors.join("; ")}` }
+      }
+
+      // Files or directories to restore, relative to the config directory
+      const paths = only?.map((p) => p.replace(/^\.?\/+|\/+$/g, "")) ?? ["."]
+      const available = backupPaths(dir)
+      const unknown = paths.filter((p) => p !== "." && !available.some((f) => f === p || f.startsWith(`${p}/`)))
+      if (unknown.length > 0) {
+        return { success: false, error: `Not in backup: ${unknown.join(", ")}` }
+      }
+
+      // Make the restore itself undoable
+      const safety = await backupSettings({ label: "pre-restore", protect: [backupPath] })
+      if (!safety.success) {
+        return { success: false, error: `Safety backup failed, nothing restored: ${safety.error}` }
+      }
+      if (safety.path) logger.log(`    Safety backup of current settings: ${basename(safety.path)}`)
+
+      // A leftover WAL from the live database would be replayed onto the restored snapshot
+      const db = join(CONFIG.configDir, AGENTS_DB)
+      if (paths.some((p) => p === "." || AGENTS_DB === p || AGENTS_DB.startsWith(`${p}/`))) {
+        await sh`rm -f ${db}-wal ${db}-shm ${db}-journal`
+      }
+
+      await sh`mkdir -p ${CONFIG.configDir}`
+      for (const path of paths) {
+        const target = join(CONFIG.configDir, path)
+        await sh`mkdir -p ${dirname(target)}`
+        const result = await sh`cp -a ${join(dir, path)}${path === "." ? "/." : ""} ${path === "." ? `${target}/` : target}`.nothrow()
+        if (result.exitCode !== 0) {
+          return { success: false, error: `Copy command failed for ${path}` }
+        }
+      }
+      await sh`rm -f ${join(CONFIG.configDir, BACKUP_MANIFEST)}`
+
+      // Verify restore succeeded
+      const { ok } = verifySettings()
+      if (!ok && !runner.dryRun) {
+        return { success: false, error: "Restore verification failed" }
+      }
+
+      return { success: true }
+    })
+  } catch (err) {
+    return { success: false, error: String(err) }
+  }
+}
+
+/** How one file differs between a backup and the current settings */
+interface BackupDiffEntry {
+  path: string
+  status: "added" | "removed" | "changed"
+  backupSize?: number
+  currentSize?: number
+}
+
+/** Compare a backup with the current settings: files added, removed or changed since the backup */
+async function diffBackup(backupPath: string): Promise<{ files: BackupDiffEntry[]; tables: TableCountDiff[] }> {
+  return withBackupContents(backupPath, async (dir) => {
+    const liveDbFiles = ["-wal", "-shm", "-journal"].map((ext) => AGENTS_DB + ext)
+    const backupFiles = new Set(backupPaths(dir))
+    const currentFiles = new Set(listFilesRecursive(CONFIG.configDir).filter((p) => !liveDbFiles.includes(p)))
+
+    const files: BackupDiffEntry[] = []
+    for (const path of [...new Set([...backupFiles, ...currentFiles])].sort()) {
+      const backupSize = backupFiles.has(path) ? lstatSync(join(dir, path)).size : undefined
+      const currentSize = currentFiles.has(path) ? lstatSync(join(CONFIG.configDir, path)).size : undefined
+      if (backupSize === undefined) {
+        files.push({ path, status: "added", currentSize })
+      } else if (currentSize === undefined) {
+        files.push({ path, status: "removed", backupSize })
+      } else if (path !== AGENTS_DB && sha256File(join(dir, path)) !== sha256File(join(CONFIG.configDir, path))) {
+        files.push({ path, status: "changed", backupSize, currentSize })
+      }
+    }
+
+    // A snapshot never matches the live file byte for byte: compare contents instead
+    let tables: TableCountDiff[] = []
+    if (backupFiles.has(AGENTS_DB) && currentFiles.has(AGENTS_DB)) {
+      tables = diffTableCounts(tableRowCounts(join(dir, AGENTS_DB)), tableRowCounts(join(CONFIG.configDir, AGENTS_DB)))
+      if (tables.length > 0) {
+        files.push({
+          path: AGENTS_DB,
+          status: "changed",
+          backupSize: lstatSync(join(dir, AGENTS_DB)).size,
+          currentSize: lstatSync(join(CONFIG.configDir, AGENTS_DB)).size,
+        })
+        files.sort((a, b) => a.path.localeCompare(b.path))
+      }
+    }
+
+    return { files, tables }
+  })
+}
+
+/** Verify critical settings files exist */
 function verifySettings(): { ok: boolean; missing: string[] } {
   const missing: string[] = []
   for (const file of CRITICAL_SETTINGS_FILES) {
@@ -242,6 +1207,128 @@ function verifySettings(): { ok: boolean; missing: string[] } {
   return { ok: missing.length === 0, missing }
 }
 
+// ============================================================
+// Agents Database - SQLite helpers
+// ============================================================
+
+/** Consistent copy of a (possibly live) SQLite database, including committed WAL content */
+function snapshotDatabase(path: string): Uint8Array {
+  const db = new Database(path, { readonly: true })
+  try {
+    return db.serialize()
+  } finally {
+    db.close()
+  }
+}
+
+/** Row count of every user table */
+function tableRowCounts(path: string): Record<string, number> {
+  const db = new Database(path, { readonly: true })
+  try {
+    const tables = db
+      .query("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+      .values()
+      .map((row) => String(row[0]))
+    const counts: Record<string, number> = {}
+    for (const table of tables) {
+      const row = db.query(`SELECT COUNT(*) FROM "${table.replace(/"/g, '""')}"`).values()[0]
+      counts[table] = Number(row?.[0] ?? 0)
+    }
+    return counts
+  } finally {
+    db.close()
+  }
+}
+
+/** A table whose row count differs between two databases */
+interface TableCountDiff {
+  table: string
+  before?: number
+  after?: number
+}
+
+/** Tables whose row counts differ, including tables only present on one side */
+function diffTableCounts(before: Record<string, number>, after: Record<string, number>): TableCountDiff[] {
+  const tables = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+  return tables
+    .filter((table) => before[table] !== after[table])
+    .map((table) => ({ table, before: before[table], after: after[table] }))
+}
+
+/** Run PRAGMA integrity_check, returns "ok" or the problems found */
+function checkDatabaseIntegrity(path: string): string {
+  try {
+    const db = new Database(path, { readonly: true })
+    try {
+      const rows = db.query("PRAGMA integrity_check").values()
+      return rows.map((row) => String(row[0])).join("; ")
+    } finally {
+      db.close()
+    }
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err)
+  }
+}
+
+/** Health report for an agents database */
+interface DatabaseHealth {
+  /** PRAGMA integrity_check result, "ok" when healthy */
+  integrity: string
+  /** PRAGMA quick_check result, "ok" when healthy */
+  quickCheck: string
+  journalMode: string
+  /** Schema version (PRAGMA user_version) */
+  userVersion: number
+  rowCounts: Record<string, number>
+  /** Set when the database cannot be opened or queried at all */
+  error?: string
+}
+
+/** Journal files left next to a database (-wal, -shm, -journal) with their sizes */
+function databaseLeftovers(path: string): { file: string; size: number }[] {
+  return ["-wal", "-shm", "-journal"].flatMap((ext) => {
+    const stats = safeStatSync(path + ext)
+    return stats ? [{ file: basename(path) + ext, size: stats.size }] : []
+  })
+}
+
+/** Open a database read-only and collect integrity, journal and schema information */
+function inspectDatabase(path: string): DatabaseHealth {
+  const health: DatabaseHealth = { integrity: "", quickCheck: "", journalMode: "", userVersion: 0, rowCounts: {} }
+  try {
+    const db = new Database(path, { readonly: true })
+    try {
+      const pragma = (name: string) => db.query(`PRAGMA ${name}`).values().map((row) => String(row[0]))
+      health.quickCheck = pragma("quick_check").join("; ")
+      health.integrity = pragma("integrity_check").join("; ")
+      health.journalMode = pragma("journal_mode")[0] ?? "unknown"
+      health.userVersion = Number(pragma("user_version")[0] ?? 0)
+    } finally {
+      db.close()
+    }
+    health.rowCounts = tableRowCounts(path)
+  } catch (err) {
+    health.error = err instanceof Error ? err.message : String(err)
+  }
+  return health
+}
+
+/** Rebuild a database with VACUUM INTO, which skips pages it cannot read; returns the error or null */
+function vacuumInto(path: string, target: string): string | null {
+  try {
+    const db = new Database(path, { readonly: true })
+    try {
+      db.run("VACUUM INTO ?", [target])
+    } finally {
+      db.close()
+    }
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err)
+  }
+  const integrity = checkDatabaseIntegrity(target)
+  return integrity === "ok" ? null : `rebuilt copy fails integrity check: ${integrity}`
+}
+
 // ============================================================
 // Diagnostics
 // ============================================================
@@ -260,6 +1347,7 @@ async function checkKeyringStatus(): Promise<{ running: boolean; name?: string }
 /** Run settings diagnostics */
 async function diagSettings(): Promise<void> {
   logger.banner("1Code Settings Diagnostics")
+  const isRunning = await isProcessRunning(basename(CONFIG.appPath))
 
   // Config directory check
   logger.step("Config directory: " + CONFIG.configDir)
@@ -278,6 +1366,37 @@ async function diagSettings(): Promise<void> {
     }
   }
 
+  // Agents database check
+  const db = join(CONFIG.configDir, AGENTS_DB)
+  if (existsSync(db)) {
+    logger.step(`Agents database: ${AGENTS_DB}`)
+    // Before opening: a read-only connection may create -shm itself
+    const leftovers = databaseLeftovers(db)
+    const health = inspectDatabase(db)
+    if (health.error) {
+      logger.error(`Cannot read database: ${health.error}`)
+      logger.log("    Try: update-1code repair")
+    } else {
+      if (health.integrity === "ok" && health.quickCheck === "ok") {
+        logger.success("Integrity check passed")
+      } else {
+        logger.error(`integrity_check: ${health.integrity}`)
+        logger.error(`quick_check: ${health.quickCheck}`)
+        logger.log("    Try: update-1code repair")
+      }
+      logger.log(`    Journal mode: ${health.journalMode}`)
+      logger.log(`    Schema version (user_version): ${health.userVersion}`)
+      for (const { file, size } of leftovers) {
+        // A non-empty WAL with 1Code closed holds changes never checkpointed into the database
+        const unclean = !isRunning && size > 0 && !file.endsWith("-shm")
+        logger.log(`    Leftover ${file}: ${formatBytes(size)}${unclean ? " (1Code may not have shut down cleanly)" : ""}`)
+      }
+      const tables = Object.entries(health.rowCounts)
+      const width = Math.max(0, ...tables.map(([table]) => table.length))
+      tables.forEach(([table, count]) => logger.log(`    ${table.padEnd(width)}  ${count} rows`))
+    }
+  }
+
   // Keyring check
   logger.step("Secret Service (for auth encryption)")
   const keyring = await checkKeyringStatus()
@@ -285,7 +1404,7 @@ async function diagSettings(): Promise<void> {
     logger.success(`${keyring.name} daemon running`)
   } else {
     logger.warn("No keyring daemon detected - auth tokens may not persist")
-    logger.log("    Install: sudo apt install gnome-keyring")
+    logger.log("    Install: " + manualInstallHint(await detectPackageManager(), ["keyring"]))
   }
 
   // Backups check
@@ -304,88 +1423,198 @@ async function diagSettings(): Promise<void> {
 // Package Management
 // ============================================================
 
-/** Install system packages with apt */
-async function installAptPackages(packages: string[]): Promise<boolean> {
+/** System requirements that can be satisfied by a distro package */
+type Requirement = "git" | "make" | "g++" | "pkg-config" | "python3" | "distutils" | "keyring"
+
+interface PackageManager {
+  name: "apt" | "dnf" | "pacman" | "zypper"
+  /** Binary used to detect this package manager */
+  binary: string
+  /** Optional metadata refresh run before installing */
+  refresh?: string[]
+  /** Non-interactive install command (packages are appended) */
+  install: string[]
+  /** Command shown to the user for a manual install */
+  manualInstall: string
+  /** Distro package names for each requirement */
+  packages: Record<Requirement, string[]>
+}
+
+/** Supported package managers, in detection order */
+const PACKAGE_MANAGERS: readonly PackageManager[] = [
+  {
+    name: "apt",
+    binary: "apt-get",
+    refresh: ["apt-get", "update", "-qq"],
+    install: ["apt-get", "install", "-y"],
+    manualInstall: "sudo apt install",
+    packages: {
+      git: ["git"],
+      make: ["build-essential"],
+      "g++": ["build-essential"],
+      "pkg-config": ["pkg-config"],
+      python3: ["python3"],
+      distutils: ["python3-pip", "python3-setuptools"],
+      keyring: ["gnome-keyring"],
+    },
+  },
+  {
+    name: "dnf",
+    binary: "dnf",
+    install: ["dnf", "install", "-y"],
+    manualInstall: "sudo dnf install",
+    packages: {
+      git: ["git"],
+      make: ["make"],
+      "g++": ["gcc-c++"],
+      "pkg-config": ["pkgconf-pkg-config"],
+      python3: ["python3"],
+      distutils: ["python3-pip", "python3-setuptools"],
+      keyring: ["gnome-keyring"],
+    },
+  },
+  {
+    name: "pacman",
+    binary: "pacman",
+    install: ["pacman", "-S", "--needed", "--noconfirm"],
+    manualInstall: "sudo pacman -S --needed",
+    packages: {
+      git: ["git"],
+      make: ["make"],
+      "g++": ["gcc"],
+      "pkg-config": ["pkgconf"],
+      python3: ["python"],
+      distutils: ["python-pip", "python-setuptools"],
+      keyring: ["gnome-keyring"],
+    },
+  },
+  {
+    name: "zypper",
+    binary: "zypper",
+    refresh: ["zypper", "--non-interactive", "refresh"],
+    install: ["zypper", "--non-interactive", "install"],
+    manualInstall: "sudo zypper install",
+    packages: {
+      git: ["git"],
+      make: ["make"],
+      "g++": ["gcc-c++"],
+      "pkg-config": ["pkg-config"],
+      python3: ["python3"],
+      distutils: ["python3-pip", "python3-setuptools"],
+      keyring: ["gnome-keyring"],
+    },
+  },
+]
+
+/** Detect the system package manager, returns null if none is supported */
+async function detectPackageManager(): Promise<PackageManager | null> {
+  for (const pm of PACKAGE_MANAGERS) {
+    if (await hasCommand(pm.binary)) return pm
+  }
+  return null
+}
+
+/** Map requirements to the distro package names, without duplicates */
+function packagesFor(pm: PackageManager, requirements: Requirement[]): string[] {
+  return [...new Set(requirements.flatMap((req) => pm.packages[req]))]
+}
+
+/** Manual install command for the given requirements, for display */
+function manualInstallHint(pm: PackageManager | null, requirements: Requirement[]): string {
+  if (!pm) return `install ${requirements.join(", ")} with your package manager`
+  return `${pm.manualInstall} ${packagesFor(pm, requirements).join(" ")}`
+}
+
+/** Install system packages with the detected package manager */
+async function installSystemPackages(pm: PackageManager, packages: string[]): Promise<boolean> {
   try {
     logger.log(`    Installing: ${packages.join(", ")}`)
-    await $`sudo apt-get update -qq`
-    await $`sudo apt-get install -y ${packages}`
+    if (pm.refresh) await sh`sudo ${pm.refresh}`
+    await sh`sudo ${pm.install} ${packages}`
     return true
   } catch {
     return false
   }
 }
 
-/** Check and install dependencies */
-async function checkDependencies(): Promise<void> {
+/** Check and install dependencies (user mode only prints what to install, never calls sudo) */
+async function checkDependencies(mode: InstallMode = "system"): Promise<void> {
   logger.step("Checking dependencies...")
 
-  const aptPackages: string[] = []
+  const pm = await detectPackageManager()
+  if (pm) {
+    logger.log(`    Package manager: ${pm.name}`)
+  } else {
+    logger.warn("No supported package manager found (apt, dnf, pacman, zypper)")
+  }
+
+  const missing: Requirement[] = []
 
   // Check required commands
-  const requiredCommands = [
-    { cmd: "git", pkg: "git" },
-    { cmd: "make", pkg: "build-essential" },
-    { cmd: "g++", pkg: "build-essential" },
-    { cmd: "pkg-config", pkg: "pkg-config" },
-  ]
-
-  for (const { cmd, pkg } of requiredCommands) {
+  const requiredCommands: Requirement[] = ["git", "make", "g++", "pkg-config"]
+
+  for (const cmd of requiredCommands) {
     if (!(await hasCommand(cmd))) {
-      aptPackages.push(pkg)
+      missing.push(cmd)
     }
   }
 
-  // Check bun (not available via apt)
+  // Check bun (not available via system package managers)
   const hasBun = await hasCommand("bun")
 
   // Check Python
   const hasPython = await hasCommand("python3")
   if (!hasPython) {
-    aptPackages.push("python3")
+    missing.push("python3")
   } else {
     const pythonVersion = await getPythonVersion()
     logger.log(`    ${pythonVersion}`)
 
     if (!(await hasPythonModule("distutils"))) {
       logger.warn("Python distutils not found (required for native modules)")
-      aptPackages.push("python3-pip", "python3-setuptools")
+      missing.push("distutils")
     } else {
       logger.success("Python distutils available")
     }
   }
 
-  // Install apt packages if needed
-  const uniqueAptPackages = [...new Set(aptPackages)]
-  if (uniqueAptPackages.length > 0) {
+  // Install system packages if needed
+  if (missing.length > 0) {
     logger.log("")
     logger.warn("Missing system packages detected:")
-    uniqueAptPackages.forEach((pkg) => logger.log(`    - ${pkg}`))
-    logger.log("")
 
-    const response = prompt("Install missing packages with apt? [Y/n] ")
-    if (response?.toLowerCase() !== "n") {
-      const installed = await installAptPackages(uniqueAptPackages)
-      if (installed) {
-        logger.success("System packages installed")
-
-        // Handle Python 3.12+ distutils shim
-        if (uniqueAptPackages.includes("python3-pip") && !(await hasPythonModule("distutils"))) {
-          logger.log("    Installing setuptools via pip for distutils support...")
-          try {
-            await $`python3 -m pip install --user --break-system-packages setuptools`.quiet()
-            if (await hasPythonModule("distutils")) {
-              logger.success("Python distutils now available")
-            } else {
-              logger.warn("distutils still not available - native module builds may fail")
+    if (!pm || mode === "user") {
+      missing.forEach((req) => logger.log(`    - ${req}`))
+      logger.log("")
+      logger.log(`    ${mode === "user" ? "Ask an administrator to run" : "Install manually"}: ${manualInstallHint(pm, missing)}`)
+    } else {
+      const packages = packagesFor(pm, missing)
+      packages.forEach((pkg) => logger.log(`    - ${pkg}`))
+      logger.log("")
+
+      if (confirm(`Install missing packages with ${pm.name}?`, { default: true })) {
+        const installed = await installSystemPackages(pm, packages)
+        if (installed) {
+          logger.success("System packages installed")
+
+          // Handle Python 3.12+ distutils shim
+          if (missing.includes("distutils") && !(await hasPythonModule("distutils"))) {
+            logger.log("    Installing setuptools via pip for distutils support...")
+            try {
+              await sh`python3 -m pip install --user --break-system-packages setuptools`.quiet()
+              if (await hasPythonModule("distutils")) {
+                logger.success("Python distutils now available")
+              } else {
+                logger.warn("distutils still not available - native module builds may fail")
+              }
+            } catch {
+              logger.warn("pip install setuptools failed")
             }
-          } catch {
-            logger.warn("pip install setuptools failed")
           }
+        } else {
+          logger.error("Failed to install some packages")
+          logger.log("    Try manually: " + manualInstallHint(pm, missing))
         }
-      } else {
-        logger.error("Failed to install some packages")
-        logger.log("    Try manually: sudo apt install " + uniqueAptPackages.join(" "))
       }
     }
   }
@@ -411,18 +1640,138 @@ async function checkDependencies(): Promise<void> {
 // Version Management
 // ============================================================
 
-/** Compare semver versions: -1 if a < b, 0 if equal, 1 if a > b */
+/** Where install/update take new versions from */
+type Channel = "stable" | "beta" | "nightly"
+
+const CHANNELS: readonly Channel[] = ["stable", "beta", "nightly"]
+
+/** A parsed semver version; minor and patch default to 0 */
+interface SemVer {
+  core: [number, number, number]
+  /** Dot-separated prerelease identifiers, empty for releases */
+  prerelease: string[]
+  /** Build metadata: kept, but ignored for ordering as semver requires */
+  build: string
+}
+
+/** Parse a tag like v1.2.3-beta.1+build.5, null for tags that are not versions */
+function parseVersion(tag: string): SemVer | null {
+  const match = tag.match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+([0-9A-Za-z.-]+))?$/)
+  if (!match) return null
+  return {
+    core: [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)],
+    prerelease: match[4]?.split(".") ?? [],
+    build: match[5] ?? "",
+  }
+}
+
+/**
+ * Compare versions by semver precedence: -1 if a < b, 0 if equal, 1 if a > b.
+ * 1.0.0-alpha < 1.0.0-alpha.1 < 1.0.0-beta < 1.0.0-rc.1 < 1.0.0; build metadata is ignored.
+ * Tags that are not versions sort before all versions, alphabetically among themselves.
+ */
 function compareVersions(a: string, b: string): number {
-  const partsA = a.replace(/^v/, "").split(".").map(Number)
-  const partsB = b.replace(/^v/, "").split(".").map(Number)
+  const va = parseVersion(a)
+  const vb = parseVersion(b)
+  if (!va || !vb) {
+    if (va) return 1
+    if (vb) return -1
+    return Math.sign(a.localeCompare(b))
+  }
+
+  for (let i = 0; i < 3; i++) {
+    if (va.core[i] !== vb.core[i]) return va.core[i] < vb.core[i] ? -1 : 1
+  }
+
+  // A release ranks above its prereleases
+  if (va.prerelease.length === 0 || vb.prerelease.length === 0) {
+    return Math.sign(vb.prerelease.length - va.prerelease.length)
+  }
+  for (let i = 0; i < Math.min(va.prerelease.length, vb.prerelease.length); i++) {
+    const x = va.prerelease[i]
+    const y = vb.prerelease[i]
+    if (x === y) continue
+    const xNum = /^\d+$/.test(x)
+    const yNum = /^\d+$/.test(y)
+    // Numeric identifiers compare numerically and rank below alphanumeric ones
+    if (xNum && yNum) return Number(x) < Number(y) ? -1 : 1
+    if (xNum !== yNum) return xNum ? -1 : 1
+    return x < y ? -1 : 1
+  }
+  return Math.sign(va.prerelease.length - vb.prerelease.length)
+}
+
+/** True for full commit hashes, which nightly and branch installs use instead of tags */
+function isCommitRef(ref: string): boolean {
+  return /^[0-9a-f]{40}$/.test(ref)
+}
+
+/** True for full or abbreviated commit hashes */
+function looksLikeCommit(ref: string): boolean {
+  return /^[0-9a-f]{7,40}$/.test(ref)
+}
+
+/** Short form of a ref for messages: tags as-is, commits as <followed branch>@abc1234 */
+function describeRef(ref: string, followed = loadState().ref): string {
+  if (!isCommitRef(ref)) return ref
+  if (followed && looksLikeCommit(followed)) return ref.slice(0, 7)
+  return `${followed ?? "main"}@${ref.slice(0, 7)}`
+}
+
+/** Channel from --channel, else the remembered one, else stable */
+function resolveChannel(requested?: string): Channel {
+  if (requested) {
+    if (!CHANNELS.includes(requested as Channel)) {
+      logger.error(`Unknown channel: ${requested}`)
+      logger.log(`    Supported: ${CHANNELS.join(", ")}`)
+      process.exit(1)
+    }
+    return requested as Channel
+  }
+  return loadState().channel ?? "stable"
+}
+
+/** Ref from --ref ("default" forgets it), else the remembered one; unset follows the channel */
+function resolveFollowedRef(requested?: string): string | undefined {
+  if (requested === "default") return undefined
+  return requested ?? loadState().ref
+}
+
+/** Remember --source and --ref for later updates; picking a --channel stops following a ref */
+async function rememberSource(options: { source?: string; ref?: string; channel?: string }): Promise<void> {
+  if (options.source) await saveState({ source: options.source === "default" ? undefined : CONFIG.repoUrl })
+  if (options.ref) {
+    await saveState({ ref: resolveFollowedRef(options.ref) })
+  } else if (options.channel) {
+    await saveState({ ref: undefined })
+  }
+}
+
+/** Commands that fetch from the source; the others only show it */
+const FETCHING_COMMANDS = ["install", "update", "status", "check", "scheduled-check", "bundle", "rollback"]
 
-  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
-    const numA = partsA[i] || 0
-    const numB = partsB[i] || 0
-    if (numA < numB) return -1
-    if (numA > numB) return 1
+/**
+ * Point repoUrl at --source, else at the remembered source, so every git command uses it.
+ * "default" goes back to the configured repoUrl; local checkouts are stored as absolute paths.
+ * A missing source is fatal only for commands that fetch; the others keep the configured repoUrl.
+ */
+function applySource(requested: string | undefined, command: string): void {
+  const source = requested === "default" ? undefined : requested ?? loadState().source
+  if (!source) return
+
+  const path = resolve(source.replace(/^~(?=$|\/)/, homedir()))
+  const isUrl = /^[\w+.-]+:\/\//.test(source) || /^[^/\s]+@[^/\s]+:/.test(source)
+  if (!isUrl && !existsSync(path)) {
+    if (!FETCHING_COMMANDS.includes(command)) {
+      logger.warn(`Source not found: ${source}; using ${CONFIG.repoUrl}`)
+      return
+    }
+    logger.error(`Source not found: ${source}`)
+    logger.log("    Use a git URL or the path of a local checkout")
+    process.exit(1)
   }
-  return 0
+  CONFIG.repoUrl = isUrl ? source : path
+  CONFIG_SOURCES.repoUrl = requested ? "--source" : `remembered source (${STATE_FILE})`
 }
 
 /** Check for installer updates */
@@ -447,176 +1796,2384 @@ async function checkInstallerUpdate(): Promise<void> {
   }
 }
 
-/** Get latest tag from remote repository */
-async function getLatestTag(): Promise<string> {
-  const tagsOutput = await $`git ls-remote --tags --sort=-v:refname ${CONFIG.repoUrl}`.text()
-  const firstLine = tagsOutput.split("\n")[0] || ""
-  return firstLine.replace(/.*refs\/tags\//, "").replace(/\^{}$/, "").trim()
+/** Newest version for a channel: the highest release tag (stable), highest tag including prereleases (beta), or main's HEAD commit (nightly) */
+async function getLatestTag(channel: Channel = resolveChannel()): Promise<string> {
+  if (channel === "nightly") {
+    const head = await sh`git ls-remote ${CONFIG.repoUrl} refs/heads/main`.readOnly().text()
+    return head.split(/\s/)[0]?.trim() ?? ""
+  }
+
+  const tagsOutput = await sh`git ls-remote --tags ${CONFIG.repoUrl}`.readOnly().text()
+  const tags = tagsOutput
+    .split("\n")
+    .map((line) => line.replace(/.*refs\/tags\//, "").replace(/\^{}$/, "").trim())
+    .filter((tag) => {
+      const version = parseVersion(tag)
+      return version !== null && (channel === "beta" || version.prerelease.length === 0)
+    })
+  return tags.sort(compareVersions).at(-1) ?? ""
+}
+
+/** Check that a tag exists in the remote repository */
+async function tagExists(tag: string): Promise<boolean> {
+  const output = await sh`git ls-remote --tags ${CONFIG.repoUrl} ${`refs/tags/${tag}`}`.readOnly().nothrow().text()
+  return output.trim().length > 0
 }
 
-/** Get current tag in local repository */
-async function getCurrentTag(): Promise<string> {
-  try {
-    return (await $`git describe --tags --exact-match 2>/dev/null`.text()).trim()
-  } catch {
-    return "none"
+/**
+ * Resolve a branch, tag or commit against the source: tags stay tags, everything else
+ * becomes the commit it points to now. Short hashes need an existing checkout to expand.
+ */
+async function resolveRef(ref: string): Promise<string> {
+  const output = await sh`git ls-remote ${CONFIG.repoUrl} ${ref}`.readOnly().nothrow().text()
+  const matches = output
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => line.split(/\s+/))
+  if (matches.some(([, name]) => name === `refs/tags/${ref}`)) return ref
+  const match = matches.find(([, name]) => name === `refs/heads/${ref}` || name === ref) ?? matches[0]
+  if (match) return match[0]
+
+  // Servers don't list commits: full hashes are taken as they are
+  if (isCommitRef(ref)) return ref
+  if (looksLikeCommit(ref) && existsSync(join(CONFIG.installDir, ".git"))) {
+    const commit = await sh`git rev-parse -q --verify ${`${ref}^{commit}`}`.cwd(CONFIG.installDir).readOnly().quiet().nothrow()
+    if (commit.exitCode === 0) return commit.stdout.trim()
+  }
+  logger.error(`Ref ${ref} not found in ${CONFIG.repoUrl}`)
+  if (looksLikeCommit(ref)) logger.log("    Use the full 40-character commit hash")
+  process.exit(1)
+}
+
+/** Resolve what to install: explicit version, then pinned tag, then the followed ref, then the channel's latest */
+async function resolveTargetTag(version?: string, channel?: Channel, ref?: string): Promise<string> {
+  const tag = version ?? loadState().pinnedTag
+  if (!tag && ref) return resolveRef(ref)
+  if (!tag) {
+    const latest = await getLatestTag(channel)
+    if (!latest) {
+      logger.error(`No ${channel ?? resolveChannel()} release found in ${CONFIG.repoUrl}`)
+      process.exit(1)
+    }
+    return latest
   }
+
+  if (!(await tagExists(tag))) {
+    logger.error(`Version ${tag} not found in ${CONFIG.repoUrl}`)
+    process.exit(1)
+  }
+  return tag
+}
+
+/** Get current tag in local repository, or the commit for nightly checkouts */
+async function getCurrentTag(): Promise<string> {
+  const tag = await sh`git describe --tags --exact-match 2>/dev/null`.readOnly().quiet().nothrow()
+  if (tag.exitCode === 0) return tag.stdout.trim()
+  const commit = await sh`git rev-parse HEAD 2>/dev/null`.readOnly().quiet().nothrow()
+  return commit.exitCode === 0 ? commit.stdout.trim() : "none"
 }
 
 // ============================================================
 // Git Operations
 // ============================================================
 
-/** Clone repository to install directory */
-async function cloneRepo(tag: string): Promise<void> {
-  logger.step(`Cloning 1code repository (${tag})...`)
-  await $`mkdir -p ${join(CONFIG.installDir, "..")}`
-  await $`git clone --depth 1 --branch ${tag} ${CONFIG.repoUrl} ${CONFIG.installDir}`
+/** Version tags in the local checkout, oldest first */
+async function listTags(): Promise<string[]> {
+  const output = await sh`git tag --list 'v*'`.readOnly().nothrow().text()
+  return output
+    .split("\n")
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+    .sort(compareVersions)
 }
 
-/** Update repository to specified tag */
-async function updateRepo(tag: string): Promise<void> {
-  logger.step(`Updating to ${tag}...`)
+/** What changed from one tag (or commit) to the next: the tag annotation if there is one, else the commit subjects */
+async function releaseNotes(from: string, to: string): Promise<string[]> {
+  const isAnnotated = (await sh`git cat-file -t ${to}`.readOnly().quiet().nothrow().text()).trim() === "tag"
+  const annotation = isAnnotated ? await sh`git tag --list ${to} --format=${"%(contents)"}`.readOnly().nothrow().text() : ""
+  if (annotation.trim()) {
+    return annotation.trim().split("\n")
+  }
+
+  const MAX_COMMITS = 20
+  const range = (await refExistsLocally(from)) ? `${from}..${to}` : to
+  const commits = (await sh`git log --no-merges --format=${"%h %s"} ${range}`.readOnly().nothrow().text())
+    .split("\n")
+    .filter(Boolean)
+  if (commits.length > MAX_COMMITS) {
+    return [...commits.slice(0, MAX_COMMITS), `... and ${commits.length - MAX_COMMITS} more commits`]
+  }
+  return commits.length > 0 ? commits : ["(no commits)"]
+}
+
+/** True if the local checkout has a tag or commit */
+async function refExistsLocally(ref: string): Promise<boolean> {
+  if (!existsSync(join(CONFIG.installDir, ".git"))) return false
+  const result = await sh`git rev-parse -q --verify ${`${ref}^{commit}`}`.cwd(CONFIG.installDir).readOnly().quiet().nothrow()
+  return result.exitCode === 0
+}
+
+/** True if two tags or commits are the same commit in the local checkout, e.g. a release tag and the branch HEAD */
+async function sameCommit(a: string, b: string): Promise<boolean> {
+  if (a === b) return true
+  const commits: string[] = []
+  for (const ref of [a, b]) {
+    const result = await sh`git rev-parse -q --verify ${`${ref}^{commit}`}`.cwd(CONFIG.installDir).readOnly().quiet().nothrow()
+    commits.push(result.stdout.trim())
+  }
+  return commits[0] !== "" && commits[0] === commits[1]
+}
+
+/** Keep origin on the configured source, so fetches follow a --source change */
+async function syncOrigin(): Promise<void> {
+  const origin = (await sh`git remote get-url origin`.cwd(CONFIG.installDir).readOnly().quiet().nothrow().text()).trim()
+  if (origin === CONFIG.repoUrl) return
+  logger.log(`    Switching source: ${origin || "none"} → ${CONFIG.repoUrl}`)
+  await sh`git remote set-url origin ${CONFIG.repoUrl}`.cwd(CONFIG.installDir)
+}
+
+/** Fetch tags and every branch of the source */
+async function fetchSource(): Promise<void> {
+  await syncOrigin()
+  // Git refuses to move existing tags; verifySource reports moved ones before building
+  const tags = await sh`git fetch --tags origin`.cwd(CONFIG.installDir).nothrow()
+  if (tags.exitCode !== 0) logger.warn("Some tags could not be updated (moved upstream?)")
+  await sh`git fetch origin`.cwd(CONFIG.installDir)
+}
+
+/** Fetch a commit no branch contains (a pull request head, a force-pushed-away commit) on demand */
+async function fetchTarget(target: string): Promise<void> {
+  if (await refExistsLocally(target)) return
+  logger.log(`    Fetching ${describeRef(target)}...`)
+  await sh`git fetch origin ${target}`.cwd(CONFIG.installDir)
+}
+
+/** Clone the full repository to the install directory and check out a tag or commit */
+async function cloneRepo(tag: string): Promise<void> {
+  logger.step(`Cloning 1code repository (${describeRef(tag)})...`)
+  await sh`mkdir -p ${join(CONFIG.installDir, "..")}`
+  await sh`git clone ${CONFIG.repoUrl} ${CONFIG.installDir}`
+  await fetchTarget(tag)
+  await sh`git checkout --detach ${tag}`.cwd(CONFIG.installDir)
+}
 
-  // Check for uncommitted changes
+/** Make sure the live checkout has no uncommitted changes, offering to stash them */
+async function ensureCleanCheckout(tag: string): Promise<void> {
+  // Our own source patches are not local changes
+  const excludes = (await patchedPaths(CONFIG.installDir)).map((path) => `:(exclude)${path}`)
   try {
-    await $`git diff-index --quiet HEAD --`.quiet()
+    await sh`git diff-index --quiet HEAD -- . ${excludes}`.cwd(CONFIG.installDir).readOnly().quiet()
   } catch {
     logger.warn("You have uncommitted changes.")
-    const response = prompt("Stash changes and continue? [y/N] ")
-
-    if (response?.toLowerCase() === "y") {
-      await $`git stash push -m "Auto-stash before update to ${tag}"`
+    if (confirm("Stash changes and continue?", { default: false })) {
+      await sh`git stash push -m ${`Auto-stash before update to ${tag}`}`.cwd(CONFIG.installDir)
       logger.success("Changes stashed. Run 'git stash pop' to restore.")
     } else {
       logger.error("Aborting. Please commit or stash your changes first.")
       process.exit(1)
     }
   }
-
-  await $`git checkout ${tag}`
 }
 
-// ============================================================
-// Build & Install
-// ============================================================
+/** Update repository to specified tag */
+async function updateRepo(tag: string): Promise<void> {
+  logger.step(`Updating to ${tag}...`)
+  await ensureCleanCheckout(tag)
+  await revertPatches(CONFIG.installDir)
+  await sh`git checkout ${tag}`.cwd(CONFIG.installDir)
+}
 
-/** Rebuild native modules for Electron */
-async function rebuildNativeModules(): Promise<void> {
-  logger.step("Rebuilding native modules for Electron...")
+/** Worktree new versions are built in, next to the live checkout */
+function stagingDir(): string {
+  return `${CONFIG.installDir}-staging`
+}
 
-  try {
-    await $`npx electron-rebuild -f -w better-sqlite3,node-pty`
-    logger.success("Native modules rebuilt successfully")
-  } catch {
-    logger.warn("electron-rebuild failed (this may be okay if modules were pre-built)")
-    logger.log("    If 1Code fails to start, run manually:")
-    logger.log("    cd ~/.local/share/1code && npx electron-rebuild -f -w better-sqlite3,node-pty")
-  }
+/** Create a fresh staging worktree for a tag, replacing any leftover one */
+async function createStaging(tag: string): Promise<string> {
+  const dir = stagingDir()
+  logger.step(`Preparing staging checkout for ${describeRef(tag)}...`)
+  await removeStaging()
+  await sh`git worktree add --detach ${dir} ${tag}`.cwd(CONFIG.installDir)
+  return dir
 }
 
-/** Build the application from source */
-async function buildApp(): Promise<void> {
-  logger.step("Installing dependencies...")
-  await $`rm -f bun.lock bun.lockb`.nothrow()
-  await $`VERCEL=1 bun install`
+/** Remove the staging worktree and its build outputs */
+async function removeStaging(): Promise<void> {
+  const dir = stagingDir()
+  // Later commands would fail to spawn from a deleted working directory
+  if (process.cwd().startsWith(dir)) runner.chdir(CONFIG.installDir)
+  await sh`git worktree remove --force ${dir}`.cwd(CONFIG.installDir).quiet().nothrow()
+  await sh`rm -rf ${dir}`
+  await sh`git worktree prune`.cwd(CONFIG.installDir).quiet().nothrow()
+}
 
-  logger.step("Updating dependencies to latest compatible versions...")
-  await $`VERCEL=1 bun update`
+/** Switch the live checkout to a tag built in staging, taking over its build outputs */
+async function promoteStaging(tag: string): Promise<void> {
+  const dir = stagingDir()
+  runner.chdir(CONFIG.installDir)
+  // Refuse (or stash) local changes before anything moves, so aborting leaves the live checkout as it was
+  await ensureCleanCheckout(tag)
+
+  // Ignored paths are the build outputs: node_modules, release/, ...
+  // A parent and a path inside it can both be listed; moving the parent takes the nested one along
+  const listed = existsSync(dir)
+    ? (await sh`git ls-files --others --ignored --exclude-standard --directory`.cwd(dir).readOnly().text())
+        .split("\n")
+        .map((line) => line.trim().replace(/\/$/, ""))
+        .filter(Boolean)
+        .sort()
+    : []
+  const outputs: string[] = []
+  for (const path of listed) {
+    if (!outputs.some((parent) => path.startsWith(`${parent}/`))) outputs.push(path)
+  }
 
-  await rebuildNativeModules()
+  // Outputs move while the live checkout is still on the old version: a failed move leaves it there
+  for (const path of outputs) {
+    const target = join(CONFIG.installDir, path)
+    await sh`rm -rf ${target}`
+    await sh`mkdir -p ${dirname(target)}`
+    await sh`mv ${join(dir, path)} ${target}`
+  }
 
-  logger.step("Downloading Claude binary...")
-  await $`bun run claude:download`
+  await updateRepo(tag)
+  // Keep the live source matching what was built, for later --from/--only rebuilds
+  await applyPatches(tag, CONFIG.installDir, "checkout")
+  await removeStaging()
+}
 
-  logger.step("Building application...")
-  await $`bun run build`
+// ============================================================
+// Source Verification - pinned commits, moved tags and signatures
+// ============================================================
 
-  logger.step("Packaging for Linux...")
-  await $`echo 'module.exports={install:()=>{}}' > node_modules/source-map-support/source-map-support.js`.nothrow()
-  await $`CI=true NO_COLOR=1 TERM=dumb bun run package:linux`
-}
+/** Armored public keys (.asc) whose tag and commit signatures are trusted */
+const TRUSTED_KEYS_DIR = join(USER_CONFIG_DIR, "trusted-keys")
 
-/** Install the .deb package */
-async function installDeb(): Promise<void> {
-  const debFiles = await $`ls -t release/*.deb 2>/dev/null | head -1`.text()
-  const debFile = debFiles.trim()
+/** Tag to expected commit, e.g. { "v0.7.0": "3894049e..." } */
+const TRUSTED_COMMITS_FILE = join(USER_CONFIG_DIR, "trusted-commits.json")
 
-  if (!debFile) {
-    logger.error("No .deb file found in release/")
+/** Load the trusted commit pins; exits when the file can't be parsed */
+function loadTrustedCommits(): Record<string, string> {
+  if (!existsSync(TRUSTED_COMMITS_FILE)) return {}
+  try {
+    const pins = JSON.parse(readFileSync(TRUSTED_COMMITS_FILE, "utf8")) as unknown
+    if (typeof pins !== "object" || pins === null || Array.isArray(pins)) throw new Error("expected an object of tag: commit")
+    return pins as Record<string, string>
+  } catch (err) {
+    logger.error(`Cannot read ${TRUSTED_COMMITS_FILE}: ${err instanceof Error ? err.message : String(err)}`)
     process.exit(1)
   }
+}
 
-  logger.step(`Installing ${debFile}...`)
-  logger.log("    (requires sudo password)")
-  await $`sudo dpkg -i ${debFile}`
+function trustedKeyFiles(): string[] {
+  if (!existsSync(TRUSTED_KEYS_DIR)) return []
+  return readdirSync(TRUSTED_KEYS_DIR)
+    .filter((file) => /\.(asc|gpg|pub)$/.test(file))
+    .sort()
+    .map((file) => join(TRUSTED_KEYS_DIR, file))
+}
 
-  if (existsSync(CONFIG.sandboxPath)) {
-    logger.step("Fixing Electron sandbox permissions...")
-    await $`sudo chown root:root ${CONFIG.sandboxPath}`
-    await $`sudo chmod 4755 ${CONFIG.sandboxPath}`
+/** Commit a tag points at upstream, null when unknown */
+async function remoteTagCommit(tag: string): Promise<string | null> {
+  const output = await sh`git ls-remote origin ${`refs/tags/${tag}`} ${`refs/tags/${tag}^{}`}`
+    .cwd(CONFIG.installDir)
+    .readOnly()
+    .quiet()
+    .nothrow()
+    .text()
+  const lines = output.split("\n").filter(Boolean)
+  // Annotated tags list the tag object, then the commit it points at as ^{}
+  const line = lines.find((l) => l.endsWith("^{}")) ?? lines[0]
+  return line?.split(/\s+/)[0] ?? null
+}
+
+/** Check a tag or commit signature against the trusted keys only, in a throwaway keyring */
+async function verifySignature(tag: string, commit: string): Promise<void> {
+  const keys = trustedKeyFiles()
+  if (keys.length === 0) {
+    logger.log(`    No trusted keys in ${TRUSTED_KEYS_DIR}, signature not checked`)
+    return
   }
 
+  const gnupg = mkdtempSync(join(tmpdir(), "1code-gnupg-"))
+  try {
+    await sh`GNUPGHOME=${gnupg} gpg --batch --quiet --import ${keys}`.readOnly().quiet()
+    // Lightweight tags can't be signed; their commit can
+    const type = await sh`git cat-file -t ${tag}`.cwd(CONFIG.installDir).readOnly().quiet().nothrow().text()
+    const result = await (type.trim() === "tag"
+      ? sh`GNUPGHOME=${gnupg} git verify-tag ${tag}`
+      : sh`GNUPGHOME=${gnupg} git verify-commit ${commit}`
+    )
+      .cwd(CONFIG.installDir)
+      .readOnly()
+      .quiet()
+      .nothrow()
+    if (result.exitCode !== 0) {
+      logger.error(`${describeRef(tag)} has no valid signature from a trusted key`)
+      result.stderr
+        .split("\n")
+        .filter(Boolean)
+        .forEach((line) => logger.log(`    ${line}`))
+      logger.log(`    Trusted keys: ${TRUSTED_KEYS_DIR}`)
+      process.exit(1)
+    }
+    const signer = result.stderr.match(/Good signature from "([^"]+)"/)?.[1]
+    logger.success(`Signed by ${signer ?? "a trusted key"}`)
+  } finally {
+    rmSync(gnupg, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Check the checked-out source before building it: the commit pinned for its tag in
+ * trusted-commits.json, tags moved since they were last built or upstream, and signatures
+ * when trusted keys are configured. Exits on a pin mismatch or bad signature; asks about moved tags.
+ */
+async function verifySource(tag: string, options: { offline?: boolean } = {}): Promise<void> {
+  logger.step(`Verifying ${describeRef(tag)}...`)
+  if (runner.dryRun && !(await refExistsLocally(tag))) {
+    logger.log("    Skipped: not fetched in a dry run")
+    return
+  }
+  const commit = (
+    await sh`git rev-parse -q --verify ${`${tag}^{commit}`}`.cwd(CONFIG.installDir).readOnly().quiet().nothrow().text()
+  ).trim()
+  if (!commit) {
+    logger.error(`${describeRef(tag)} not found in ${CONFIG.installDir}`)
+    process.exit(1)
+  }
+
+  if (!isCommitRef(tag)) {
+    const pinned = loadTrustedCommits()[tag]?.toLowerCase()
+    if (pinned && !commit.startsWith(pinned)) {
+      logger.error(`${tag} points at ${commit.slice(0, 12)}, but ${basename(TRUSTED_COMMITS_FILE)} expects ${pinned.slice(0, 12)}`)
+      logger.log("    The tag was moved or tampered with; refusing to build it")
+      process.exit(1)
+    }
+
+    if (pinned) {
+      logger.success(`${tag} matches its pinned commit`)
+    } else {
+      const recorded = loadState().tagCommits?.[tag]
+      const upstream = options.offline ? null : await remoteTagCommit(tag)
+      const moves = [
+        recorded && recorded !== commit && `was ${recorded.slice(0, 12)} when last built`,
+        upstream && upstream !== commit && `upstream now points it at ${upstream.slice(0, 12)}`,
+      ].filter(Boolean)
+      if (moves.length > 0) {
+        logger.warn(`${tag} has moved: the checkout has ${commit.slice(0, 12)}, ${moves.join(", ")}`)
+        logger.log(`    If the move is legitimate, pin the commit you expect in ${TRUSTED_COMMITS_FILE}`)
+        if (upstream && upstream !== commit) logger.log(`    and update the local tag: git -C ${CONFIG.installDir} fetch --force --tags`)
+        if (!confirm("Build it anyway?", { default: false })) {
+          logger.error(`Refusing to build moved tag ${tag}`)
+          process.exit(1)
+        }
+      }
+    }
+  }
+
+  await verifySignature(tag, commit)
+}
+
+// ============================================================
+// Patches - Linux fixups applied to the checkout during a build
+// ============================================================
+
+const PATCHES_DIR = join(USER_CONFIG_DIR, "patches")
+
+/** When a patch runs: right after checkout (source changes) or after dependencies are installed */
+type PatchStage = "checkout" | "install"
+
+const PATCH_STAGES: readonly PatchStage[] = ["checkout", "install"]
+
+interface PatchInfo {
+  name: string
+  description: string
+  /** Upstream versions it applies to, e.g. ">=v0.4.0 <v0.7.0"; "*" for all */
+  versions: string
+  stage: PatchStage
+  /** "built-in" or the patch file */
+  origin: string
+}
+
+/** A git diff, applied with git apply */
+interface DiffPatch extends PatchInfo {
+  kind: "diff"
+  diff: string
+}
+
+/** A scripted transform, run in the checkout */
+interface ScriptPatch extends PatchInfo {
+  kind: "script"
+  run: (dir: string) => Promise<void>
+  /** Confirms the transform took effect */
+  verify: (dir: string) => Promise<boolean>
+}
+
+type Patch = DiffPatch | ScriptPatch
+
+const SOURCE_MAP_SUPPORT_STUB = "module.exports={install:()=>{}}\n"
+
+/** Fixups shipped with the installer; a user patch with the same name replaces one */
+const BUILTIN_PATCHES: readonly Patch[] = [
+  {
+    name: "stub-source-map-support",
+    description: "Stub out source-map-support, which breaks Linux packaging",
+    versions: "*",
+    stage: "install",
+    origin: "built-in",
+    kind: "script",
+    run: async (dir) => {
+      const file = join(dir, "node_modules/source-map-support/source-map-support.js")
+      if (existsSync(dirname(file))) await runner.writeFile(file, SOURCE_MAP_SUPPORT_STUB)
+    },
+    verify: async (dir) => {
+      const file = join(dir, "node_modules/source-map-support/source-map-support.js")
+      return !existsSync(file) || readFileSync(file, "utf8") === SOURCE_MAP_SUPPORT_STUB
+    },
+  },
+]
+
+/** True if a version satisfies a range of space-separated comparators (>=, >, <=, <, =) */
+function satisfiesRange(version: string, range: string): boolean {
+  if (range.trim() === "*") return true
+  return range
+    .trim()
+    .split(/\s+/)
+    .every((comparator) => {
+      const [, op, bound] = comparator.match(/^(>=|<=|>|<|=)?(.+)$/) ?? []
+      const order = compareVersions(version, bound)
+      switch (op) {
+        case ">=":
+          return order >= 0
+        case ">":
+          return order > 0
+        case "<=":
+          return order <= 0
+        case "<":
+          return order < 0
+        default:
+          return order === 0
+      }
+    })
+}
+
+/** Check a range is made of comparators against versions */
+function isValidRange(range: string): boolean {
+  if (range.trim() === "*") return true
+  return range
+    .trim()
+    .split(/\s+/)
+    .every((comparator) => parseVersion(comparator.replace(/^(>=|<=|>|<|=)/, "")) !== null)
+}
+
+/** Read "# key: value" headers from the top of a patch file */
+function patchHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of text.split("\n")) {
+    if (line.startsWith("#!")) continue
+    const match = line.match(/^#\s*([\w-]+):\s*(.*)$/)
+    if (!match) break
+    headers[match[1].toLowerCase()] = match[2].trim()
+  }
+  return headers
+}
+
+/** Load one user patch: a git diff (.patch/.diff) or a bash script (.sh) */
+function loadPatchFile(file: string): Patch | { error: string } {
+  const headers = patchHeaders(readFileSync(file, "utf8"))
+  const isScript = file.endsWith(".sh")
+  const stage = (headers.stage ?? (isScript ? "install" : "checkout")) as PatchStage
+  const versions = headers.versions ?? "*"
+
+  if (!PATCH_STAGES.includes(stage)) {
+    return { error: `${file}: unknown stage "${stage}" (valid: ${PATCH_STAGES.join(", ")})` }
+  }
+  // Changes to tracked files must be revertible before the next checkout
+  if (isScript && stage === "checkout") {
+    return { error: `${file}: scripts only run at the install stage, use a diff for source changes` }
+  }
+  if (!isValidRange(versions)) {
+    return { error: `${file}: invalid versions range "${versions}" (e.g. ">=v0.4.0 <v0.7.0")` }
+  }
+
+  const info: PatchInfo = {
+    name: basename(file).replace(/\.(patch|diff|sh)$/, ""),
+    description: headers.description ?? "",
+    versions,
+    stage,
+    origin: file,
+  }
+  if (!isScript) return { ...info, kind: "diff", diff: file }
+  return {
+    ...info,
+    kind: "script",
+    run: async (dir) => {
+      await sh`bash ${file}`.cwd(dir)
+    },
+    verify: async (dir) => !headers.check || (await sh`bash -c ${headers.check}`.cwd(dir).readOnly().quiet().nothrow()).exitCode === 0,
+  }
+}
+
+/** Built-in patches plus the user's, by name; invalid user patches are reported and exit */
+function loadPatches(): Patch[] {
+  const patches = new Map(BUILTIN_PATCHES.map((p) => [p.name, p]))
+  const files = existsSync(PATCHES_DIR)
+    ? readdirSync(PATCHES_DIR)
+        .filter((f) => /\.(patch|diff|sh)$/.test(f))
+        .sort()
+    : []
+
+  const errors: string[] = []
+  for (const file of files) {
+    const result = loadPatchFile(join(PATCHES_DIR, file))
+    if ("error" in result) {
+      errors.push(result.error)
+    } else {
+      patches.set(result.name, result)
+    }
+  }
+  if (errors.length > 0) {
+    logger.error("Invalid patches:")
+    errors.forEach((e) => logger.log(`    ${e}`))
+    process.exit(1)
+  }
+  return [...patches.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/** Version a build is for: its tag, else the version in its package.json (branch and nightly builds) */
+async function buildVersion(tag: string, dir = CONFIG.installDir): Promise<string | null> {
+  if (parseVersion(tag)) return tag
+  const pkg = await sh`git show ${`${tag}:package.json`}`.cwd(dir).readOnly().quiet().nothrow()
+  if (pkg.exitCode !== 0) return null
+  try {
+    const version = (JSON.parse(pkg.stdout) as { version?: string }).version
+    return version && parseVersion(version) ? version : null
+  } catch {
+    return null
+  }
+}
+
+/** Patches that apply to a version; only unranged ones apply when the version is unknown */
+function patchesFor(patches: Patch[], version: string | null, stage?: PatchStage): Patch[] {
+  return patches.filter(
+    (p) =>
+      (!stage || p.stage === stage) &&
+      (p.versions.trim() === "*" || (version !== null && satisfiesRange(version, p.versions)))
+  )
+}
+
+/** True if a diff is already applied to a checkout */
+async function diffApplied(patch: DiffPatch, dir: string): Promise<boolean> {
+  return (await sh`git apply --reverse --check ${patch.diff}`.cwd(dir).readOnly().quiet().nothrow()).exitCode === 0
+}
+
+/** Apply the patches of a stage to a checkout of a tag and verify them; throws naming the patch that failed */
+async function applyPatches(tag: string, dir: string, stage: PatchStage): Promise<void> {
+  if (runner.dryRun && !existsSync(dir)) {
+    logger.log("    Skipped: nothing checked out in a dry run")
+    return
+  }
+  const version = await buildVersion(tag, dir)
+  const patches = patchesFor(loadPatches(), version, stage)
+  if (patches.length === 0) {
+    logger.log(`    No ${stage} patches for ${describeRef(tag)}`)
+    return
+  }
+
+  for (const patch of patches) {
+    if (patch.kind === "diff" && (await diffApplied(patch, dir))) {
+      logger.log(`    ${patch.name}: already applied`)
+      continue
+    }
+    if (patch.kind === "diff") {
+      const result = await sh`git apply ${patch.diff}`.cwd(dir).quiet().nothrow()
+      if (result.exitCode !== 0) {
+        throw new Error(`Patch ${patch.name} (${patch.origin}) does not apply to ${describeRef(tag)}: ${result.stderr.trim()}`)
+      }
+    } else {
+      try {
+        await patch.run(dir)
+      } catch (err) {
+        throw new Error(`Patch ${patch.name} (${patch.origin}) failed: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+
+    const ok = runner.dryRun || (patch.kind === "diff" ? await diffApplied(patch, dir) : await patch.verify(dir))
+    if (!ok) {
+      throw new Error(`Patch ${patch.name} (${patch.origin}) did not take effect in ${dir}`)
+    }
+    logger.log(`    ${patch.name}: applied`)
+  }
+}
+
+/** Source patches currently applied to a checkout, whatever version they were applied for */
+async function appliedSourcePatches(dir: string): Promise<DiffPatch[]> {
+  const applied: DiffPatch[] = []
+  for (const patch of loadPatches().filter((p): p is DiffPatch => p.stage === "checkout" && p.kind === "diff")) {
+    if (await diffApplied(patch, dir)) applied.push(patch)
+  }
+  return applied
+}
+
+/** Files a checkout's applied source patches change, so they don't count as local changes */
+async function patchedPaths(dir: string): Promise<string[]> {
+  const paths: string[] = []
+  for (const patch of await appliedSourcePatches(dir)) {
+    const numstat = await sh`git apply --numstat ${patch.diff}`.cwd(dir).readOnly().quiet().nothrow().text()
+    paths.push(...numstat.split("\n").filter(Boolean).map((line) => line.split("\t")[2]))
+  }
+  return paths
+}
+
+/** Undo applied source patches before checking out another version */
+async function revertPatches(dir: string): Promise<void> {
+  for (const patch of await appliedSourcePatches(dir)) {
+    await sh`git apply --reverse ${patch.diff}`.cwd(dir)
+  }
+}
+
+/** Show each patch and whether it applies to a tag (default: the checkout's) */
+async function listPatches(tag?: string): Promise<void> {
+  const installed = existsSync(join(CONFIG.installDir, ".git"))
+  if (installed) runner.chdir(CONFIG.installDir)
+  const target = tag ?? (installed ? await getCurrentTag() : undefined)
+  const version = target ? await buildVersion(target) : null
+  const patches = loadPatches()
+  const applying = new Set(patchesFor(patches, version, undefined))
+
+  logger.header(`Patches for ${target ? describeRef(target) : "(nothing installed)"}${version && version !== target ? ` (version ${version})` : ""}:`)
+  logger.log(`  User patches: ${PATCHES_DIR}`)
+  logger.log("")
+  for (const patch of patches) {
+    const mark = applying.has(patch) ? paint("✓", colors.green) : "-"
+    logger.log(`  ${mark} ${patch.name}  [${patch.stage}, ${patch.versions}]  ${patch.origin}`)
+    if (patch.description) logger.log(`      ${patch.description}`)
+  }
+  if (target && version === null) {
+    logger.log("")
+    logger.warn("Version unknown, so only patches for all versions (*) apply")
+  }
+}
+
+// ============================================================
+// Build & Install
+// ============================================================
+
+/** Rebuild native modules for Electron, returns false if electron-rebuild failed */
+async function rebuildNativeModules(): Promise<boolean> {
+  try {
+    await sh`npx electron-rebuild -f -w better-sqlite3,node-pty`
+    logger.success("Native modules rebuilt successfully")
+    return true
+  } catch {
+    logger.warn("electron-rebuild failed (this may be okay if modules were pre-built)")
+    logger.log("    If 1Code fails to start, run manually:")
+    logger.log(`    cd ${CONFIG.installDir} && npx electron-rebuild -f -w better-sqlite3,node-pty`)
+    return false
+  }
+}
+
+/** What a build produces and where it gets installed */
+interface BuildContext {
+  tag: string
+  /** Checkout the build runs in: the live one, or a staging worktree */
+  dir: string
+  format: PackageFormat
+  mode: InstallMode
+  /** Settings backup taken before this build, recorded with the installed release */
+  backup?: string
+  /** Re-resolve dependencies past the lockfile and redo the steps that are normally skipped (--refresh-deps) */
+  refreshDeps?: boolean
+}
+
+/** Inputs of the last dependency install and native rebuild in a checkout, to skip them when unchanged */
+interface DependencyCache {
+  /** Fingerprint of package.json and the lockfile node_modules was installed from */
+  deps?: string
+  /** Electron and native module versions the native modules were rebuilt for */
+  native?: string
+}
+
+const LOCKFILES = ["bun.lock", "bun.lockb"]
+
+const MAX_CACHED_CLAUDE_BINARIES = 2
+
+/** Downloaded Claude binaries, one directory per download key */
+function claudeCacheDir(): string {
+  return join(CONFIG.cacheDir, "claude")
+}
+
+/** Kept in node_modules, so it moves and disappears with what it describes */
+function dependencyCachePath(dir: string): string {
+  return join(dir, "node_modules", ".1code-linux-deps.json")
+}
+
+function loadDependencyCache(dir: string): DependencyCache {
+  try {
+    return JSON.parse(readFileSync(dependencyCachePath(dir), "utf8")) as DependencyCache
+  } catch {
+    return {}
+  }
+}
+
+async function saveDependencyCache(dir: string, changes: Partial<DependencyCache>): Promise<void> {
+  if (!existsSync(join(dir, "node_modules"))) return
+  await runner.writeFile(dependencyCachePath(dir), JSON.stringify({ ...loadDependencyCache(dir), ...changes }, null, 2) + "\n")
+}
+
+/** Hash of package.json and the lockfile: unchanged means bun install would install the same tree */
+function dependencyFingerprint(dir: string): string {
+  const hasher = new Bun.CryptoHasher("sha256")
+  for (const file of ["package.json", ...LOCKFILES]) {
+    const path = join(dir, file)
+    hasher.update(`${file}\0`)
+    if (existsSync(path)) hasher.update(readFileSync(path))
+  }
+  return hasher.digest("hex")
+}
+
+/** Electron and native module versions in node_modules: unchanged means the rebuilt modules still fit */
+function nativeFingerprint(dir: string): string {
+  return ["electron", ...NATIVE_MODULES]
+    .map((name) => {
+      try {
+        const pkg = JSON.parse(readFileSync(join(dir, "node_modules", name, "package.json"), "utf8")) as { version: string }
+        return `${name}@${pkg.version}`
+      } catch {
+        return `${name}@none`
+      }
+    })
+    .join(" ")
+}
+
+/** Reuse node_modules installed from the same package.json and lockfile, copying the live checkout's into staging */
+async function reuseDependencies(dir: string, fingerprint: string): Promise<boolean> {
+  if (existsSync(join(dir, "node_modules"))) return loadDependencyCache(dir).deps === fingerprint
+  if (dir === CONFIG.installDir || loadDependencyCache(CONFIG.installDir).deps !== fingerprint) return false
+
+  logger.log("    Copying node_modules from the live checkout")
+  await sh`cp -a --reflink=auto ${join(CONFIG.installDir, "node_modules")} ${join(dir, "node_modules")}`
+  return true
+}
+
+/** Install dependencies from upstream's lockfile, or re-resolve them without it for --refresh-deps */
+async function installDependencies(ctx: BuildContext): Promise<void> {
+  if (ctx.refreshDeps) {
+    await sh`rm -f bun.lock bun.lockb`.nothrow()
+    await sh`VERCEL=1 bun install`
+    // A re-resolved tree matches no lockfile, so the next reproducible build reinstalls
+    await saveDependencyCache(ctx.dir, { deps: undefined, native: undefined })
+    return
+  }
+
+  const fingerprint = dependencyFingerprint(ctx.dir)
+  if (await reuseDependencies(ctx.dir, fingerprint)) {
+    logger.log("    package.json and lockfile unchanged, skipping bun install")
+    return
+  }
+  const lockfiles = LOCKFILES.filter((file) => existsSync(join(ctx.dir, file)))
+  const frozen = lockfiles.length > 0 ? ["--frozen-lockfile"] : []
+  const result = await sh`VERCEL=1 bun install ${frozen}`.nothrow()
+  if (result.exitCode !== 0) {
+    if (frozen.length === 0) throw new Error(`bun install failed with exit code ${result.exitCode}`)
+    // Upstream sometimes tags a release whose lockfile lags behind package.json
+    logger.warn("The lockfile doesn't match package.json, resolving the difference without it")
+    logger.log("    Use --refresh-deps to re-resolve every dependency")
+    await sh`VERCEL=1 bun install`
+    // Keep upstream's lockfile, so the checkout stays clean and the fingerprint stable
+    await sh`git checkout -- ${lockfiles}`.quiet().nothrow()
+  }
+  // Freshly installed native modules are built for Node, not Electron
+  await saveDependencyCache(ctx.dir, { deps: fingerprint, native: undefined })
+}
+
+/** Rebuild native modules unless they were already rebuilt for the same Electron and module versions */
+async function rebuildNativeIfChanged(ctx: BuildContext): Promise<void> {
+  const fingerprint = nativeFingerprint(ctx.dir)
+  if (!ctx.refreshDeps && loadDependencyCache(ctx.dir).native === fingerprint) {
+    logger.log(`    Already rebuilt for ${fingerprint}, skipping`)
+    return
+  }
+  if (await rebuildNativeModules()) await saveDependencyCache(ctx.dir, { native: fingerprint })
+}
+
+/** Cache key for the Claude binary: the download script and the files it runs, which pin its version */
+function claudeDownloadKey(dir: string): string | null {
+  try {
+    const pkg = JSON.parse(readFileSync(join(dir, "package.json"), "utf8")) as { scripts?: Record<string, string> }
+    const script = pkg.scripts?.["claude:download"]
+    if (!script) return null
+    const hasher = new Bun.CryptoHasher("sha256")
+    hasher.update(script)
+    for (const file of script.match(/[\w./-]+\.(?:[cm]?[jt]s|sh)\b/g) ?? []) {
+      if (existsSync(join(dir, file))) hasher.update(readFileSync(join(dir, file)))
+    }
+    return hasher.digest("hex").slice(0, 16)
+  } catch {
+    return null
+  }
+}
+
+/** Download the Claude binary, or copy it from the cache when this version was downloaded before */
+async function downloadClaude(ctx: BuildContext): Promise<void> {
+  const cacheDir = claudeCacheDir()
+  const key = claudeDownloadKey(ctx.dir)
+  const cached = key ? join(cacheDir, key) : null
+  if (cached && existsSync(cached) && !ctx.refreshDeps) {
+    logger.log(`    Using cached Claude binary (${key})`)
+    await sh`cp -a ${`${cached}/.`} ${ctx.dir}`
+    return
+  }
+
+  // Whatever the download creates (even with preserved mtimes) is what gets cached
+  const marker = join(cacheDir, ".download-started")
+  await sh`mkdir -p ${cacheDir}`
+  await runner.writeFile(marker, "")
+  await sh`bun run claude:download`
+  if (!cached || runner.dryRun) return
+
+  const files = (
+    await sh`find . -path ./node_modules -prune -o -path ./.git -prune -o -type f -cnewer ${marker} -print`
+      .cwd(ctx.dir)
+      .readOnly()
+      .text()
+  )
+    .split("\n")
+    .filter(Boolean)
+  if (files.length === 0) return
+  await sh`rm -rf ${cached}`
+  for (const file of files) {
+    await sh`mkdir -p ${dirname(join(cached, file))}`
+    await sh`cp -a ${file} ${join(cached, file)}`.cwd(ctx.dir)
+  }
+
+  const stale = readdirSync(cacheDir)
+    .filter((name) => !name.startsWith("."))
+    .map((name) => join(cacheDir, name))
+    .sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs)
+    .slice(MAX_CACHED_CLAUDE_BINARIES)
+  for (const dir of stale) await sh`rm -rf ${dir}`
+}
+
+type BuildStepName =
+  | "patch-source"
+  | "install-deps"
+  | "update-deps"
+  | "patch-deps"
+  | "rebuild-native"
+  | "download-claude"
+  | "build"
+  | "package"
+  | "switch"
+  | "install"
+
+interface BuildStep {
+  name: BuildStepName
+  title: (ctx: BuildContext) => string
+  run: (ctx: BuildContext) => Promise<void>
+}
+
+/** Build pipeline, in order; each step is checkpointed so a failed build can resume */
+const BUILD_STEPS: readonly BuildStep[] = [
+  {
+    name: "patch-source",
+    title: () => "Applying source patches",
+    run: (ctx) => applyPatches(ctx.tag, ctx.dir, "checkout"),
+  },
+  {
+    name: "install-deps",
+    title: () => "Installing dependencies",
+    run: installDependencies,
+  },
+  {
+    name: "update-deps",
+    title: () => "Updating dependencies to latest compatible versions",
+    run: async (ctx) => {
+      if (!ctx.refreshDeps) {
+        logger.log("    Keeping the lockfile's versions (--refresh-deps to update them)")
+        return
+      }
+      await sh`VERCEL=1 bun update`
+    },
+  },
+  {
+    name: "patch-deps",
+    title: () => "Applying dependency patches",
+    run: (ctx) => applyPatches(ctx.tag, ctx.dir, "install"),
+  },
+  {
+    name: "rebuild-native",
+    title: () => "Rebuilding native modules for Electron",
+    run: rebuildNativeIfChanged,
+  },
+  {
+    name: "download-claude",
+    title: () => "Downloading Claude binary",
+    run: downloadClaude,
+  },
+  {
+    name: "build",
+    title: () => "Building application",
+    run: async () => {
+      await sh`bun run build`
+    },
+  },
+  {
+    name: "package",
+    title: (ctx) => `Packaging for Linux (${ctx.format})`,
+    run: async (ctx) => {
+      await sh`CI=true NO_COLOR=1 TERM=dumb bun run package:linux ${PACKAGE_FORMATS[ctx.format].target}`
+    },
+  },
+  {
+    name: "switch",
+    title: (ctx) => `Switching checkout to ${ctx.tag}`,
+    run: async (ctx) => {
+      if (ctx.dir === CONFIG.installDir) {
+        logger.log("    Built in the live checkout, nothing to switch")
+        return
+      }
+      await promoteStaging(ctx.tag)
+      ctx.dir = CONFIG.installDir
+    },
+  },
+  {
+    name: "install",
+    title: (ctx) => `Installing ${ctx.tag} (${ctx.format}, ${ctx.mode})`,
+    run: async (ctx) => {
+      const artifact = await installPackage(ctx.format, ctx.mode)
+      await recordInstall({
+        tag: ctx.tag,
+        format: ctx.format,
+        installedAt: new Date().toISOString(),
+        artifact: await cachePackage(ctx.tag, artifact),
+        backup: ctx.backup,
+        sha256: runner.dryRun ? undefined : sha256File(artifact),
+      })
+      // Only a build that went through counts, for noticing the tag move before the next one
+      if (!isCommitRef(ctx.tag) && !runner.dryRun) {
+        const commit = (await sh`git rev-parse HEAD`.cwd(ctx.dir).readOnly().quiet().nothrow().text()).trim()
+        if (commit) await saveState({ tagCommits: { ...loadState().tagCommits, [ctx.tag]: commit } })
+      }
+    },
+  },
+]
+
+/** Progress of the last build, saved after every step */
+interface BuildState extends BuildContext {
+  completed: BuildStepName[]
+  failed?: BuildStepName
+  updatedAt: string
+}
+
+/** Build progress lives with the checkout it describes */
+function buildStatePath(): string {
+  return join(CONFIG.installDir, ".git", "1code-linux-build.json")
+}
+
+/** Load the saved build progress, returns null if there is none */
+function loadBuildState(): BuildState | null {
+  try {
+    return JSON.parse(readFileSync(buildStatePath(), "utf8")) as BuildState
+  } catch {
+    return null
+  }
+}
+
+async function saveBuildState(state: BuildState): Promise<void> {
+  await runner.writeFile(buildStatePath(), JSON.stringify({ ...state, updatedAt: new Date().toISOString() }, null, 2) + "\n")
+}
+
+/** Look up a build step by name, exiting with the list of valid names if unknown */
+function findBuildStep(name: string): BuildStep {
+  const step = BUILD_STEPS.find((s) => s.name === name)
+  if (!step) {
+    logger.error(`Unknown build step: ${name}`)
+    logger.log(`    Steps: ${BUILD_STEPS.map((s) => s.name).join(", ")}`)
+    process.exit(1)
+  }
+  return step
+}
+
+/** Which steps to run for --resume, --from <step> or --only <step[,step]> */
+interface StepSelection {
+  resume?: boolean
+  from?: string
+  only?: string
+}
+
+/** Pick the build steps to run; everything when nothing is selected */
+function selectBuildSteps(selection: StepSelection, state: BuildState | null): BuildStep[] {
+  const chosen = [selection.resume, selection.from, selection.only].filter(Boolean)
+  if (chosen.length > 1) {
+    logger.error("--resume, --from and --only cannot be combined")
+    process.exit(1)
+  }
+
+  if (selection.only) {
+    const names = new Set(selection.only.split(",").map((n) => findBuildStep(n.trim()).name))
+    return BUILD_STEPS.filter((s) => names.has(s.name))
+  }
+  if (selection.from) {
+    return BUILD_STEPS.slice(BUILD_STEPS.indexOf(findBuildStep(selection.from)))
+  }
+  if (selection.resume && state) {
+    return BUILD_STEPS.filter((s) => !state.completed.includes(s.name))
+  }
+  return [...BUILD_STEPS]
+}
+
+/** Run build steps in order, checkpointing after each one; returns the failed step, if any */
+async function runBuild(
+  ctx: BuildContext,
+  steps: BuildStep[],
+  previous: BuildState | null = null
+): Promise<BuildStepName | null> {
+  const completed = previous ? previous.completed.filter((name) => !steps.some((s) => s.name === name)) : []
+  const save = (failed?: BuildStepName) =>
+    saveBuildState({ ...ctx, completed, failed, updatedAt: new Date().toISOString() })
+
+  for (const [i, step] of steps.entries()) {
+    logger.step(`[${i + 1}/${steps.length}] ${step.title(ctx)}...`)
+    try {
+      await step.run(ctx)
+    } catch (err) {
+      await save(step.name)
+      logger.error(`Step "${step.name}" failed: ${err instanceof Error ? err.message : String(err)}`)
+      return step.name
+    }
+    completed.push(step.name)
+    await save()
+    logger.success(`${step.name} done`)
+  }
+
+  // A complete build leaves nothing to resume
+  if (BUILD_STEPS.every((s) => completed.includes(s.name))) {
+    await sh`rm -f ${buildStatePath()}`
+  }
+  return null
+}
+
+/** Explain a failed build and exit; a failed staging build can be kept for --resume or discarded */
+async function handleBuildFailure(ctx: BuildContext, failed: BuildStepName): Promise<never> {
+  if (ctx.dir !== CONFIG.installDir) {
+    logger.log("")
+    logger.success("The previous version is still installed and unchanged")
+    if (!confirm("Keep the staging checkout to resume later?", { default: false })) {
+      await removeStaging()
+      await sh`rm -f ${buildStatePath()}`
+      logger.log("    Staging checkout removed. Run 'update-1code update' to try again.")
+      process.exit(1)
+    }
+    logger.log(`    Staging checkout kept at ${ctx.dir}`)
+  }
+
+  logger.log("    Fix the problem, then continue with: update-1code update --resume")
+  logger.log(`    Or rerun from a step: update-1code update --from ${failed}`)
+  process.exit(1)
+}
+
+/** Build and install a tag in a staging worktree, leaving the live checkout alone until packaging succeeds */
+async function stagedBuild(ctx: Omit<BuildContext, "dir">): Promise<void> {
+  const staged: BuildContext = { ...ctx, dir: await createStaging(ctx.tag) }
+  runner.chdir(staged.dir)
+  const failed = await runBuild(staged, [...BUILD_STEPS])
+  if (failed) await handleBuildFailure(staged, failed)
+}
+
+/** Pick the package format: explicit flag, then last used, then the distro's native one */
+async function resolveFormat(requested?: string): Promise<PackageFormat> {
+  if (requested) {
+    if (!Object.hasOwn(PACKAGE_FORMATS, requested)) {
+      logger.error(`Unknown format: ${requested}`)
+      logger.log(`    Supported: ${Object.keys(PACKAGE_FORMATS).join(", ")}`)
+      process.exit(1)
+    }
+    return requested as PackageFormat
+  }
+
+  const saved = loadState().format
+  if (saved) return saved
+
+  const pm = await detectPackageManager()
+  if (pm?.name === "apt") return "deb"
+  if (pm?.name === "dnf" || pm?.name === "zypper") return "rpm"
+  return "tar"
+}
+
+/** Pick the install mode: explicit flag, then last used, then system-wide */
+function resolveMode(options: { user?: boolean; system?: boolean }): InstallMode {
+  if (options.user && options.system) {
+    logger.error("--user and --system cannot be combined")
+    process.exit(1)
+  }
+  if (options.user) return "user"
+  if (options.system) return "system"
+  return loadState().mode ?? "system"
+}
+
+interface InstallLayout {
+  /** Directory the app is installed into */
+  appDir: string
+  /** Executable launched by the desktop entry */
+  appPath: string
+  /** Chromium setuid sandbox helper, null when the format has none on disk */
+  sandboxPath: string | null
+  desktopEntryPath: string
+  iconsDir: string
+}
+
+/** Where a format installs the app, its sandbox helper and desktop integration */
+function installLayout(format: PackageFormat, mode: InstallMode): InstallLayout {
+  const appDir = mode === "user" ? CONFIG.userAppDir : dirname(CONFIG.appPath)
+  const shareDir = mode === "user" ? join(homedir(), ".local/share") : "/usr/share"
+  const common = {
+    appDir,
+    desktopEntryPath: join(shareDir, "applications", DESKTOP_ENTRY_NAME),
+    iconsDir: join(shareDir, "icons/hicolor"),
+  }
+
+  if (format === "appimage") {
+    // The sandbox helper lives inside the read-only AppImage mount
+    return { ...common, appPath: join(appDir, "1Code.AppImage"), sandboxPath: null }
+  }
+  if (mode === "user") {
+    return {
+      ...common,
+      appPath: join(appDir, basename(CONFIG.appPath)),
+      sandboxPath: join(appDir, basename(CONFIG.sandboxPath)),
+    }
+  }
+  return { ...common, appPath: CONFIG.appPath, sandboxPath: CONFIG.sandboxPath }
+}
+
+/** Check whether Chromium can sandbox itself with unprivileged user namespaces */
+async function checkUserNamespaces(): Promise<{ available: boolean; reason?: string }> {
+  const readSysctl = (path: string): string | null => {
+    try {
+      return readFileSync(path, "utf8").trim()
+    } catch {
+      return null
+    }
+  }
+
+  if (readSysctl("/proc/sys/kernel/unprivileged_userns_clone") === "0") {
+    return { available: false, reason: "kernel.unprivileged_userns_clone is 0" }
+  }
+  if (readSysctl("/proc/sys/user/max_user_namespaces") === "0") {
+    return { available: false, reason: "user.max_user_namespaces is 0" }
+  }
+  if (readSysctl("/proc/sys/kernel/apparmor_restrict_unprivileged_userns") === "1") {
+    return {
+      available: false,
+      reason: "AppArmor restricts unprivileged user namespaces (kernel.apparmor_restrict_unprivileged_userns=1)",
+    }
+  }
+
+  // Settings look fine, confirm by actually creating one
+  if (await hasCommand("unshare")) {
+    const result = await sh`unshare --user --map-root-user true`.readOnly().quiet().nothrow()
+    if (result.exitCode !== 0) {
+      return { available: false, reason: "creating a user namespace failed (blocked by a security policy)" }
+    }
+  }
+  return { available: true }
+}
+
+/** Find the newest built artifact for a format in release/ */
+function findArtifact(format: PackageFormat): string | null {
+  if (!existsSync("release")) return null
+  const { extension } = PACKAGE_FORMATS[format]
+  const artifacts = readdirSync("release")
+    .filter((f) => f.endsWith(extension))
+    .map((f) => join("release", f))
+    .sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs)
+  return artifacts[0] ?? null
+}
+
+/** Manual install command for a built artifact, for display */
+function manualPackageInstallHint(format: PackageFormat, mode: InstallMode): string {
+  const artifact = `release/*${PACKAGE_FORMATS[format].extension}`
+  if (mode === "user") return `update-1code install --user --format ${format}`
+  switch (format) {
+    case "deb":
+      return `sudo dpkg -i ${artifact}`
+    case "rpm":
+      return `sudo rpm -U --replacepkgs --oldpackage ${artifact}`
+    case "appimage":
+      return `sudo install -Dm755 ${artifact} ${installLayout(format, mode).appPath}`
+    case "tar":
+      return `sudo tar -xzf ${artifact} -C ${dirname(CONFIG.appPath)} --strip-components=1`
+  }
+}
+
+/** Copy icons into the hicolor theme, falling back to the source checkout's icon */
+async function installIcons(sourceDir: string | null, layout: InstallLayout, mode: InstallMode): Promise<void> {
+  if (sourceDir && existsSync(sourceDir)) {
+    if (mode === "user") {
+      await sh`mkdir -p ${layout.iconsDir}`
+      await sh`cp -r ${sourceDir}/. ${layout.iconsDir}/`.nothrow()
+    } else {
+      await sh`sudo cp -r ${sourceDir}/. ${layout.iconsDir}/`.nothrow()
+    }
+  } else if (existsSync("build/icon.png")) {
+    const target = join(layout.iconsDir, `512x512/apps/${ICON_NAME}.png`)
+    if (mode === "user") {
+      await sh`install -Dm644 build/icon.png ${target}`.nothrow()
+    } else {
+      await sh`sudo install -Dm644 build/icon.png ${target}`.nothrow()
+    }
+  }
+}
+
+/** Write a desktop entry for installs without their own desktop integration */
+async function installDesktopEntry(layout: InstallLayout, mode: InstallMode, extraArgs = ""): Promise<void> {
+  logger.step("Creating desktop entry...")
+  const entry = `[Desktop Entry]
+Name=1Code
+Comment=AI-powered code assistant
+Exec="${layout.appPath}"${extraArgs ? ` ${extraArgs}` : ""} %U
+Icon=${ICON_NAME}
+Type=Application
+Terminal=false
+Categories=Development;
+StartupWMClass=1Code
+`
+  if (mode === "user") {
+    await sh`mkdir -p ${dirname(layout.desktopEntryPath)}`
+    await runner.writeFile(layout.desktopEntryPath, entry)
+    return
+  }
+
+  const tmpEntry = join(runner.makeTempDir(), DESKTOP_ENTRY_NAME)
+  await runner.writeFile(tmpEntry, entry)
+  await sh`sudo install -Dm644 ${tmpEntry} ${layout.desktopEntryPath}`
+  await sh`rm -rf ${dirname(tmpEntry)}`
+}
+
+/** Unpack a deb or rpm without installing it, returns the extracted root */
+async function unpackPackage(artifact: string, format: "deb" | "rpm"): Promise<string> {
+  const extractDir = runner.makeTempDir()
+  const absArtifact = resolve(artifact)
+
+  if (format === "rpm") {
+    await sh`rpm2cpio ${absArtifact} | cpio -idm --quiet`.cwd(extractDir)
+  } else if (await hasCommand("dpkg-deb")) {
+    await sh`dpkg-deb -x ${absArtifact} ${extractDir}`
+  } else {
+    await sh`ar x ${absArtifact}`.cwd(extractDir)
+    await sh`tar -xf data.tar.* && rm -f data.tar.* control.tar.* debian-binary`.cwd(extractDir)
+  }
+  return extractDir
+}
+
+/** Extract the icons bundled in an AppImage without needing FUSE, returns the extracted root */
+async function extractAppImageIcons(appImage: string): Promise<string> {
+  const extractDir = runner.makeTempDir()
+  await sh`${appImage} --appimage-extract 'usr/share/icons/*'`.cwd(extractDir).quiet().nothrow()
+  return join(extractDir, "squashfs-root")
+}
+
+/** Install the built package system-wide with sudo */
+async function installSystemPackage(artifact: string, format: PackageFormat, layout: InstallLayout): Promise<void> {
+  logger.step(`Installing ${artifact}...`)
+  logger.log("    (requires sudo password)")
+
+  switch (format) {
+    case "deb":
+      await sh`sudo dpkg -i ${artifact}`
+      break
+    case "rpm":
+      await sh`sudo rpm -U --replacepkgs --oldpackage ${artifact}`
+      break
+    case "appimage": {
+      await sh`sudo install -Dm755 ${artifact} ${layout.appPath}`
+      const extracted = await extractAppImageIcons(layout.appPath)
+      await installDesktopEntry(layout, "system")
+      await installIcons(join(extracted, "usr/share/icons/hicolor"), layout, "system")
+      await sh`rm -rf ${dirname(extracted)}`
+      break
+    }
+    case "tar":
+      await sh`sudo rm -rf ${layout.appDir}`
+      await sh`sudo mkdir -p ${layout.appDir}`
+      await sh`sudo tar -xzf ${artifact} -C ${layout.appDir} --strip-components=1`
+      await installDesktopEntry(layout, "system")
+      await installIcons(null, layout, "system")
+      break
+  }
+
+  if (layout.sandboxPath && (existsSync(layout.sandboxPath) || runner.dryRun)) {
+    logger.step("Fixing Electron sandbox permissions...")
+    await sh`sudo chown root:root ${layout.sandboxPath}`
+    await sh`sudo chmod 4755 ${layout.sandboxPath}`
+  } else if (!layout.sandboxPath) {
+    logger.log("    Sandbox helper is bundled inside the AppImage (uses user namespaces)")
+  }
+
+  logger.step("Updating desktop database...")
+  await sh`sudo update-desktop-database 2>/dev/null || true`.quiet().nothrow()
+  await sh`sudo gtk-update-icon-cache -f ${layout.iconsDir} 2>/dev/null || true`.quiet().nothrow()
+}
+
+/** Install the built package into the user's home directory, never calls sudo */
+async function installUserPackage(artifact: string, format: PackageFormat, layout: InstallLayout): Promise<void> {
+  logger.step(`Installing ${artifact} to ${layout.appDir}...`)
+
+  let iconsSource: string | null = null
+  let cleanup: string | null = null
+
+  await sh`rm -rf ${layout.appDir}`
+  await sh`mkdir -p ${layout.appDir}`
+
+  switch (format) {
+    case "deb":
+    case "rpm": {
+      cleanup = await unpackPackage(artifact, format)
+      const packagedAppDir = join(cleanup, dirname(CONFIG.appPath))
+      if (!existsSync(packagedAppDir) && !runner.dryRun) {
+        logger.error(`Package does not contain ${dirname(CONFIG.appPath)}`)
+        await sh`rm -rf ${cleanup}`
+        process.exit(1)
+      }
+      await sh`cp -a ${packagedAppDir}/. ${layout.appDir}/`
+      iconsSource = join(cleanup, "usr/share/icons/hicolor")
+      break
+    }
+    case "appimage": {
+      await sh`install -Dm755 ${artifact} ${layout.appPath}`
+      const extracted = await extractAppImageIcons(layout.appPath)
+      cleanup = dirname(extracted)
+      iconsSource = join(extracted, "usr/share/icons/hicolor")
+      break
+    }
+    case "tar":
+      await sh`tar -xzf ${artifact} -C ${layout.appDir} --strip-components=1`
+      break
+  }
+
+  // Without setuid root the helper can't sandbox; Chromium falls back to user namespaces
+  logger.step("Checking sandbox support...")
+  const userns = await checkUserNamespaces()
+  let extraArgs = ""
+  if (userns.available) {
+    logger.success("Unprivileged user namespaces available - running sandboxed without the setuid helper")
+  } else {
+    logger.warn(`Cannot run sandboxed: ${userns.reason}`)
+    logger.log("    The setuid sandbox helper needs root, which --user mode never uses,")
+    logger.log("    and the user namespace sandbox is unavailable on this system.")
+    logger.log("    1Code will be launched with --no-sandbox.")
+    extraArgs = "--no-sandbox"
+  }
+
+  await installDesktopEntry(layout, "user", extraArgs)
+  await installIcons(iconsSource, layout, "user")
+  if (cleanup) await sh`rm -rf ${cleanup}`
+
   logger.step("Updating desktop database...")
-  await $`sudo update-desktop-database 2>/dev/null || true`.quiet().nothrow()
-  await $`sudo gtk-update-icon-cache -f /usr/share/icons/hicolor 2>/dev/null || true`.quiet().nothrow()
+  await sh`update-desktop-database ${dirname(layout.desktopEntryPath)} 2>/dev/null || true`.quiet().nothrow()
+  await sh`gtk-update-icon-cache -f -t ${layout.iconsDir} 2>/dev/null || true`.quiet().nothrow()
+}
+
+/** Install the built (or cached) package in the given format and mode, returns the artifact used */
+async function installPackage(format: PackageFormat, mode: InstallMode, cached?: string): Promise<string> {
+  const dryRunArtifact = runner.dryRun ? join("release", `*${PACKAGE_FORMATS[format].extension}`) : null
+  const artifact = cached ?? findArtifact(format) ?? dryRunArtifact
+
+  if (!artifact) {
+    logger.error(`No ${PACKAGE_FORMATS[format].extension} file found in release/`)
+    process.exit(1)
+  }
+
+  const layout = installLayout(format, mode)
+  if (mode === "user") {
+    await installUserPackage(artifact, format, layout)
+  } else {
+    await installSystemPackage(artifact, format, layout)
+  }
+
+  await saveState({ format, mode })
+  return artifact
 }
 
 /** Install update command to user's PATH */
 async function installUpdateCommand(): Promise<void> {
   logger.step("Installing update command...")
-  await $`mkdir -p ${CONFIG.binDir}`
+  await sh`mkdir -p ${CONFIG.binDir}`
 
   const updateScript = `#!/bin/bash
 bunx github:CorentinLumineau/1code-linux "$@"
 `
-  await Bun.write(join(CONFIG.binDir, "update-1code"), updateScript)
-  await $`chmod +x ${join(CONFIG.binDir, "update-1code")}`
+  await runner.writeFile(join(CONFIG.binDir, "update-1code"), updateScript)
+  await sh`chmod +x ${join(CONFIG.binDir, "update-1code")}`
+}
+
+// ============================================================
+// Doctor - checks for the installed app, each with a known fix
+// ============================================================
+
+type CheckStatus = "ok" | "warn" | "fail"
+
+interface CheckResult {
+  status: CheckStatus
+  /** What was found and, when not ok, why it matters */
+  message: string
+  /** Applies the known fix for what was found, if there is one */
+  fix?: () => Promise<void>
+}
+
+/** What the checks inspect: the installed format, mode and paths */
+interface DoctorContext {
+  format: PackageFormat
+  mode: InstallMode
+  layout: InstallLayout
+}
+
+interface DoctorCheck {
+  name: string
+  run: (ctx: DoctorContext) => Promise<CheckResult>
+}
+
+/** Extra arguments the desktop entry needs: --no-sandbox for --user installs without user namespaces */
+async function desktopEntryArgs(mode: InstallMode): Promise<string> {
+  return mode === "user" && !(await checkUserNamespaces()).available ? "--no-sandbox" : ""
+}
+
+/** Native modules the app loads; built against Electron's ABI by rebuildNativeModules */
+const NATIVE_MODULES = ["better-sqlite3", "node-pty"] as const
+
+const DOCTOR_CHECKS: readonly DoctorCheck[] = [
+  {
+    name: "App installed",
+    run: async ({ layout }) =>
+      existsSync(layout.appPath)
+        ? { status: "ok", message: layout.appPath }
+        : { status: "fail", message: `${layout.appPath} not found - run 'update-1code install'` },
+  },
+  {
+    name: "Update command",
+    run: async () => {
+      const command = join(CONFIG.binDir, "update-1code")
+      if (!existsSync(command)) {
+        return { status: "fail", message: `${command} not found`, fix: installUpdateCommand }
+      }
+      return { status: "ok", message: command }
+    },
+  },
+  {
+    name: "PATH",
+    run: async () => {
+      if ((process.env.PATH ?? "").split(":").includes(CONFIG.binDir)) {
+        return { status: "ok", message: `${CONFIG.binDir} is on PATH` }
+      }
+      const rc = join(homedir(), ".bashrc")
+      const line = `export PATH="${CONFIG.binDir}:$PATH"`
+      const configured = existsSync(rc) && readFileSync(rc, "utf8").includes(line)
+      return {
+        status: "warn",
+        message: `${CONFIG.binDir} is not on PATH, so 'update-1code' is not found${configured ? ` (set in ${rc}: open a new shell)` : ""}`,
+        fix: configured
+          ? undefined
+          : async () => {
+              await sh`echo ${line} >> ${rc}`
+            },
+      }
+    },
+  },
+  {
+    name: "Sandbox helper",
+    run: async ({ mode, layout }) => {
+      if (!layout.sandboxPath) {
+        return { status: "ok", message: "bundled inside the AppImage (uses user namespaces)" }
+      }
+      if (mode === "user") {
+        const args = await desktopEntryArgs(mode)
+        const entry = safeStatSync(layout.desktopEntryPath) ? readFileSync(layout.desktopEntryPath, "utf8") : ""
+        if (args && !entry.includes(args)) {
+          return {
+            status: "fail",
+            message: "user namespaces are unavailable and the desktop entry lacks --no-sandbox: 1Code won't start",
+            fix: () => installDesktopEntry(layout, mode, args),
+          }
+        }
+        return { status: "ok", message: args ? "running with --no-sandbox" : "user namespace sandbox available" }
+      }
+
+      const sandbox = layout.sandboxPath
+      if (!existsSync(sandbox)) return { status: "warn", message: `${sandbox} not found` }
+      const stats = statSync(sandbox)
+      if (stats.uid !== 0 || (stats.mode & 0o4755) !== 0o4755) {
+        return {
+          status: "fail",
+          message: `${sandbox} must be owned by root with mode 4755 (setuid), or 1Code won't start`,
+          fix: async () => {
+            await sh`sudo chown root:root ${sandbox}`
+            await sh`sudo chmod 4755 ${sandbox}`
+          },
+        }
+      }
+      return { status: "ok", message: `${sandbox} is setuid root` }
+    },
+  },
+  {
+    name: "Native modules",
+    run: async ({ format, layout }) => {
+      if (format === "appimage") return { status: "ok", message: "bundled inside the AppImage" }
+      if (!existsSync(layout.appPath)) return { status: "warn", message: "skipped: app not installed" }
+
+      const unpacked = join(layout.appDir, "resources/app.asar.unpacked/node_modules")
+      const binaries = NATIVE_MODULES.flatMap((module) =>
+        listFilesRecursive(join(unpacked, module))
+          .filter((file) => file.endsWith(".node"))
+          .map((file) => join(unpacked, module, file))
+      )
+      if (binaries.length === 0) return { status: "warn", message: `no native modules found in ${unpacked}` }
+
+      // Load each binary with the app's own Electron, which reports ABI mismatches
+      const broken: string[] = []
+      for (const binary of binaries) {
+        const script = `process.dlopen({ exports: {} }, ${JSON.stringify(binary)})`
+        const result = await sh`ELECTRON_RUN_AS_NODE=1 ${layout.appPath} -e ${script}`.readOnly().quiet().nothrow()
+        if (result.exitCode !== 0) {
+          const reason = result.stderr.toString().match(/NODE_MODULE_VERSION \d+[^\n]*/)?.[0] ?? "failed to load"
+          broken.push(`${basename(binary)}: ${reason}`)
+        }
+      }
+      if (broken.length > 0) {
+        return {
+          status: "fail",
+          message: `don't load with the app's Electron (wrong ABI?) - ${broken.join("; ")}`,
+          fix: async () => {
+            // The versions still match, so only a forgotten fingerprint makes the rebuild run
+            await saveDependencyCache(CONFIG.installDir, { native: undefined })
+            await resumeUpdate({ from: "rebuild-native" })
+          },
+        }
+      }
+      return { status: "ok", message: `${binaries.length} module(s) load with the app's Electron` }
+    },
+  },
+  {
+    name: "Desktop entry",
+    run: async ({ format, mode, layout }) => {
+      // System deb/rpm installs use the entry their package ships, not one the installer writes
+      if (mode === "system" && (format === "deb" || format === "rpm")) {
+        if (!existsSync(layout.appPath)) return { status: "warn", message: "skipped: app not installed" }
+        const name = await installedPackageName(format, layout.appPath)
+        const list = format === "deb" ? sh`dpkg -L ${name}` : sh`rpm -ql ${name}`
+        const owned = (await list.readOnly().quiet().nothrow().text())
+          .split("\n")
+          .find((path) => /^\/usr\/share\/applications\/[^/]+\.desktop$/.test(path))
+        if (!owned) return { status: "warn", message: `${name} ships no desktop entry` }
+        if (!existsSync(owned)) {
+          const artifact = recentReleases().current?.artifact
+          return {
+            status: "fail",
+            message: `${owned} from ${name} was deleted: 1Code is missing from the menu`,
+            fix:
+              artifact && existsSync(artifact)
+                ? async () => {
+                    await installPackage(format, mode, artifact)
+                  }
+                : undefined,
+          }
+        }
+        return { status: "ok", message: `${owned} (from ${name})` }
+      }
+
+      const args = await desktopEntryArgs(mode)
+      const fix = () => installDesktopEntry(layout, mode, args)
+      if (!existsSync(layout.desktopEntryPath)) {
+        return { status: "fail", message: `${layout.desktopEntryPath} not found: 1Code is missing from the menu`, fix }
+      }
+      const exec = readFileSync(layout.desktopEntryPath, "utf8").match(/^Exec="?([^"\s]+)/m)?.[1]
+      if (exec !== layout.appPath) {
+        return { status: "fail", message: `stale: launches ${exec ?? "nothing"} instead of ${layout.appPath}`, fix }
+      }
+      return { status: "ok", message: layout.desktopEntryPath }
+    },
+  },
+  {
+    name: "Runtime libraries",
+    run: async ({ format, layout }) => {
+      if (format === "appimage") return { status: "ok", message: "bundled inside the AppImage" }
+      if (!existsSync(layout.appPath)) return { status: "warn", message: "skipped: app not installed" }
+      if (!(await hasCommand("ldd"))) return { status: "warn", message: "ldd not available" }
+
+      const output = await sh`ldd ${layout.appPath}`.readOnly().nothrow().text()
+      const missing = [...output.matchAll(/^\s*(\S+) => not found/gm)].map((m) => m[1])
+      if (missing.length > 0) {
+        const pm = await detectPackageManager()
+        return {
+          status: "fail",
+          message: `missing ${missing.join(", ")} - install them with ${pm?.name ?? "your package manager"}`,
+        }
+      }
+      return { status: "ok", message: "all shared libraries found" }
+    },
+  },
+  {
+    name: "Agents database",
+    run: async () => {
+      const db = join(CONFIG.configDir, AGENTS_DB)
+      if (!existsSync(db)) return { status: "ok", message: "not created yet" }
+      const health = inspectDatabase(db)
+      if (health.error || health.integrity !== "ok") {
+        return { status: "fail", message: health.error ?? `integrity check: ${health.integrity}`, fix: repairDatabase }
+      }
+      return { status: "ok", message: "integrity check passed" }
+    },
+  },
+  {
+    name: "Package integrity",
+    run: async ({ format, mode, layout }) => {
+      const release = recentReleases().current
+      if (!release || release.format !== format) return { status: "warn", message: `skipped: no ${format} install recorded` }
+      if (!release.sha256) return { status: "warn", message: "no checksum recorded (installed by an older installer)" }
+      if (!release.artifact || !existsSync(release.artifact)) {
+        return { status: "warn", message: "cached package is gone, installed files can't be compared" }
+      }
+      if (sha256File(release.artifact) !== release.sha256) {
+        return { status: "fail", message: `cached ${basename(release.artifact)} no longer matches the SHA-256 recorded at install` }
+      }
+
+      const altered = await alteredFiles(release.artifact, format, mode, layout)
+      if (altered === null) return { status: "ok", message: `${basename(release.artifact)} matches its recorded SHA-256` }
+      if (altered.length > 0) {
+        const shown = altered.slice(0, 3).join(", ") + (altered.length > 3 ? `, ... (${altered.length} in total)` : "")
+        return {
+          status: "fail",
+          message: `installed files changed since install: ${shown}`,
+          fix: async () => {
+            await installPackage(format, mode, release.artifact)
+          },
+        }
+      }
+      return { status: "ok", message: `installed files match ${basename(release.artifact)} (SHA-256 ${release.sha256.slice(0, 12)})` }
+    },
+  },
+  {
+    name: "Keyring",
+    run: async () => {
+      const keyring = await checkKeyringStatus()
+      return keyring.running
+        ? { status: "ok", message: `${keyring.name} daemon running` }
+        : {
+            status: "warn",
+            message: `no keyring daemon - auth tokens may not persist. Install: ${manualInstallHint(await detectPackageManager(), ["keyring"])}`,
+          }
+    },
+  },
+]
+
+/**
+ * Installed files that differ from the package they came from; null when the format and mode
+ * can't be compared (user installs of .rpm)
+ */
+async function alteredFiles(
+  artifact: string,
+  format: PackageFormat,
+  mode: InstallMode,
+  layout: InstallLayout
+): Promise<string[] | null> {
+  switch (format) {
+    case "appimage":
+      return existsSync(layout.appPath) && sha256File(layout.appPath) === sha256File(artifact) ? [] : [layout.appPath]
+    case "tar": {
+      // GNU tar lists members that differ from the files on disk; modes and times change on install
+      const output = await sh`tar --compare -zf ${artifact} -C ${layout.appDir} --strip-components=1`.readOnly().quiet().nothrow()
+      const changed = [...output.stdout.matchAll(/^(.+): (?:Contents|Size) differs?$/gm)]
+      const missing = [...output.stderr.matchAll(/^\S*tar: (.+): Warning: Cannot stat: No such file or directory$/gm)]
+      return [...changed, ...missing]
+        .map((m) => m[1])
+        .filter(Boolean) // The stripped top-level directory
+        .map((member) => join(layout.appDir, member))
+    }
+    case "deb": {
+      // md5sums from the package itself, mapped to wherever the app directory was installed
+      const sums = await sh`dpkg-deb --info ${artifact} md5sums`.readOnly().quiet().nothrow().text()
+      const packagedAppDir = dirname(CONFIG.appPath).slice(1)
+      const altered: string[] = []
+      for (const line of sums.split("\n").filter(Boolean)) {
+        const [md5, path] = line.split(/\s+/, 2)
+        const installed =
+          mode === "system" ? `/${path}` : path.startsWith(`${packagedAppDir}/`) ? join(layout.appDir, path.slice(packagedAppDir.length + 1)) : null
+        if (!installed) continue
+        const intact = existsSync(installed) && new Bun.CryptoHasher("md5").update(readFileSync(installed)).digest("hex") === md5
+        if (!intact) altered.push(installed)
+      }
+      return altered
+    }
+    case "rpm": {
+      if (mode === "user") return null
+      // The digest column (third flag) is 5 when a file's contents changed; "missing" when deleted
+      const name = await installedPackageName(format, layout.appPath)
+      const output = await sh`rpm -V ${name}`.readOnly().quiet().nothrow().text()
+      return output
+        .split("\n")
+        .filter((line) => line[2] === "5" || line.startsWith("missing"))
+        .map((line) => line.split(/\s+/).at(-1)!)
+    }
+  }
+}
+
+/** Print a check result with the icon for its status */
+function logCheck(name: string, result: CheckResult): void {
+  const line = `${name}: ${result.message}`
+  if (result.status === "ok") logger.success(line)
+  else if (result.status === "warn") logger.warn(line)
+  else logger.error(line)
+}
+
+/** Run every check; with --fix, apply the known fix for each problem and check again */
+async function doctor(options: { fix?: boolean } = {}): Promise<void> {
+  logger.banner("1Code Doctor")
+
+  const format = await resolveFormat()
+  const mode = loadState().mode ?? "system"
+  const ctx: DoctorContext = { format, mode, layout: installLayout(format, mode) }
+  logger.log(`    Checking the ${format} install (${mode})`)
+  logger.log("")
+
+  const results: CheckResult[] = []
+  for (const check of DOCTOR_CHECKS) {
+    let result = await check.run(ctx)
+    logCheck(check.name, result)
+
+    if (options.fix && result.status !== "ok" && result.fix) {
+      logger.step(`Fixing ${check.name}...`)
+      try {
+        await result.fix()
+        result = runner.dryRun ? result : await check.run(ctx)
+        if (!runner.dryRun) logCheck(check.name, result)
+      } catch (err) {
+        logger.error(`Fix failed: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+    results.push(result)
+  }
+
+  const count = (status: CheckStatus) => results.filter((r) => r.status === status).length
+  logger.log("")
+  logger.divider()
+  logger.log(`  ${count("ok")} ok, ${count("warn")} warning(s), ${count("fail")} failed`)
+  const fixable = results.filter((r) => r.status !== "ok" && r.fix).length
+  if (!options.fix && fixable > 0) {
+    logger.log(`  Run 'update-1code doctor --fix' to fix ${fixable} of them`)
+  }
+  logger.divider()
+
+  if (count("fail") > 0) process.exit(1)
+}
+
+// ============================================================
+// Support Report - one redacted archive with everything needed to debug an install
+// ============================================================
+
+/** Scrub home paths, credentials in URLs and token-looking values */
+function redact(text: string): string {
+  return text
+    .replaceAll(homedir(), "~")
+    .replace(/\/home\/[^/\s"']+/g, "/home/<user>")
+    .replace(/(\w+:\/\/)[^/\s:@]+(:[^/\s@]*)?@/g, "$1<redacted>@")
+    .replace(/\b(Bearer|Basic)\s+[\w.~+/=-]+/gi, "$1 <redacted>")
+    .replace(/\b((?:\w*_)?(?:token|secret|password|passwd|api[_-]?key|auth)\w*)(["']?\s*[=:]\s*["']?)[^\s"',]+/gi, "$1$2<redacted>")
+    .replace(/\b(?:gh[pousr]_\w{20,}|github_pat_\w{20,}|sk-[\w-]{20,}|xox[abp]-[\w-]{10,})/g, "<redacted>")
+}
+
+/** Run a function with everything it logs collected as plain text instead of printed */
+async function captureOutput(fn: () => Promise<void>): Promise<string> {
+  const saved = { mode: outputMode, step: currentStep }
+  const lines: string[] = []
+  outputMode = "plain"
+  currentStep = null
+  capturedOutput = lines
+  try {
+    await fn()
+  } finally {
+    outputMode = saved.mode
+    currentStep = saved.step
+    capturedOutput = null
+  }
+  return lines.join("\n") + "\n"
+}
+
+/** Output of a read-only command, or why it could not run */
+async function commandOutput(command: ShellCommand): Promise<string> {
+  const result = await command.readOnly().quiet().nothrow()
+  const output = (result.stdout + result.stderr).trim()
+  return result.exitCode === 0 ? output : `${output || "failed"} (exit ${result.exitCode})`.trim()
+}
+
+/** OS, distro and desktop session */
+async function systemReport(): Promise<string> {
+  const osRelease = existsSync("/etc/os-release") ? readFileSync("/etc/os-release", "utf8") : "no /etc/os-release\n"
+  return [
+    `Kernel: ${await commandOutput(sh`uname -srmo`)}`,
+    `Desktop: ${process.env.XDG_CURRENT_DESKTOP ?? "unknown"} (${process.env.XDG_SESSION_TYPE ?? "unknown session"})`,
+    "",
+    osRelease,
+  ].join("\n")
+}
+
+/** Tool and app versions, tags and installer state */
+async function versionsReport(): Promise<string> {
+  const electronPackage = join(CONFIG.installDir, "node_modules/electron/package.json")
+  const electron = existsSync(electronPackage)
+    ? (JSON.parse(readFileSync(electronPackage, "utf8")) as { version: string }).version
+    : "not found"
+  const current = existsSync(join(CONFIG.installDir, ".git"))
+    ? await commandOutput(sh`git describe --tags --exact-match`.cwd(CONFIG.installDir))
+    : "not installed"
+  const latest = await getLatestTag().catch((err) => `unavailable (${err instanceof Error ? err.message : err})`)
+  const state = loadState()
+
+  return [
+    `Installer: ${INSTALLER_VERSION}`,
+    `bun: ${Bun.version}`,
+    `node: ${await commandOutput(sh`node --version`)}`,
+    `python: ${await getPythonVersion()}`,
+    `electron: ${electron}`,
+    "",
+    `Current tag: ${current}`,
+    `Latest tag: ${latest}`,
+    `Pinned tag: ${state.pinnedTag ?? "none"}`,
+    `Channel: ${resolveChannel()}`,
+    `Source: ${CONFIG.repoUrl}`,
+    `Ref: ${state.ref ?? "none"}`,
+    `Format: ${state.format ?? "unknown"}, mode: ${state.mode ?? "unknown"}`,
+    "",
+    "History:",
+    ...(state.history ?? []).map((r) => `  ${r.tag} (${r.format}) installed ${r.installedAt}`),
+    "",
+  ].join("\n")
+}
+
+/** Which build and runtime dependencies are present, without installing anything */
+async function dependenciesReport(): Promise<string> {
+  const pm = await detectPackageManager()
+  const lines = [`Package manager: ${pm?.name ?? "none detected"}`]
+  for (const cmd of ["git", "make", "g++", "pkg-config", "python3", "bun", "npx", "zstd"]) {
+    lines.push(`${cmd}: ${(await hasCommand(cmd)) ? "found" : "MISSING"}`)
+  }
+  lines.push(`python distutils: ${(await hasPythonModule("distutils")) ? "found" : "MISSING"}`)
+  return lines.join("\n") + "\n"
+}
+
+/** What the system package manager knows about the installed app */
+async function packageStatusReport(): Promise<string> {
+  const format = loadState().format
+  const { appPath } = installLayout(format ?? "tar", loadState().mode ?? "system")
+  if (format === "deb") {
+    return commandOutput(sh`dpkg -s ${await installedPackageName("deb", appPath)}`)
+  }
+  if (format === "rpm") {
+    return commandOutput(sh`rpm -qi ${await installedPackageName("rpm", appPath)}`)
+  }
+  return `${format ?? "unknown"} install, not managed by a package manager\n${await commandOutput(sh`ls -l ${appPath}`)}`
+}
+
+/** Write a support archive; auth.dat and settings files are never included, only their diagnostics */
+async function createReport(file: string | undefined, options: { redact: boolean }): Promise<void> {
+  logger.banner("1Code Support Report")
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19)
+  const target = resolve(file ?? `1code-report-${timestamp}.tar.gz`)
+  if (!/\.tar\.(gz|zst)$/.test(target)) {
+    logger.error("The report must be a .tar.gz or .tar.zst file")
+    process.exit(1)
+  }
+
+  logger.step("Collecting...")
+  const lastLog = listRunLogs().find((log) => log !== runLogPath)
+  const sections: Record<string, () => Promise<string>> = {
+    "system.txt": systemReport,
+    "versions.txt": versionsReport,
+    "dependencies.txt": dependenciesReport,
+    "package-status.txt": packageStatusReport,
+    "diagnose.txt": () => captureOutput(diagSettings),
+    "doctor.txt": () =>
+      captureOutput(async () => {
+        const format = await resolveFormat()
+        const mode = loadState().mode ?? "system"
+        const ctx: DoctorContext = { format, mode, layout: installLayout(format, mode) }
+        for (const check of DOCTOR_CHECKS) logCheck(check.name, await check.run(ctx))
+      }),
+    "last-run.log": async () => (lastLog ? readFileSync(lastLog, "utf8") : "no previous run log\n"),
+  }
+
+  const staging = runner.makeTempDir()
+  for (const [name, collect] of Object.entries(sections)) {
+    const collected = await collect().catch((err) => `failed to collect: ${err instanceof Error ? err.message : err}`)
+    const content = collected.endsWith("\n") ? collected : collected + "\n"
+    await runner.writeFile(join(staging, name), options.redact ? redact(content) : content)
+    logger.log(`    ${name}`)
+  }
+
+  await sh`mkdir -p ${dirname(target)}`
+  await sh`tar -caf ${target} -C ${staging} .`
+  await sh`rm -rf ${staging}`
+
+  logger.success(`Report written to ${target}`)
+  if (options.redact) {
+    logger.log("    Home paths and tokens were redacted; auth.dat is never included")
+  } else {
+    logger.warn("Not redacted: check the archive before sharing it")
+  }
+}
+
+// ============================================================
+// Scheduled Update Checks - systemd user timer
+// ============================================================
+
+const SCHEDULE_UNIT = "1code-update"
+const SYSTEMD_USER_DIR = join(homedir(), ".config/systemd/user")
+const SCHEDULE_LOG = join(CONFIG.stateDir, "scheduled.log")
+
+/** Double-quote a unit file value: backslashes and quotes escaped, % specifiers doubled */
+function systemdQuote(value: string): string {
+  return `"${systemdLiteral(value.replace(/[\\"]/g, "\\$&"))}"`
+}
+
+/** Double % specifiers in a unit file value systemd takes verbatim, such as an append: path */
+function systemdLiteral(value: string): string {
+  return value.replace(/%/g, "%%")
+}
+
+/** Paths of the service and timer units */
+function scheduleUnitPaths(): { service: string; timer: string } {
+  return {
+    service: join(SYSTEMD_USER_DIR, `${SCHEDULE_UNIT}.service`),
+    timer: join(SYSTEMD_USER_DIR, `${SCHEDULE_UNIT}.timer`),
+  }
+}
+
+/** Show a desktop notification; a missing notify-send or session bus only costs a log line */
+async function notify(title: string, body: string): Promise<void> {
+  if (!(await hasCommand("notify-send"))) {
+    logger.warn("notify-send not found - cannot show a desktop notification")
+    return
+  }
+  await sh`notify-send --app-name=1Code --icon=${ICON_NAME} ${title} ${body}`.nothrow()
+}
+
+/** Install and start the timer that runs 'scheduled-check' through the update-1code wrapper */
+async function enableSchedule(options: { interval?: string; "auto-update"?: boolean }): Promise<void> {
+  if (!(await hasCommand("systemctl"))) {
+    logger.error("systemctl not found - scheduled checks need systemd")
+    process.exit(1)
+  }
+
+  const interval = options.interval ?? "daily"
+  const valid =
+    !(await hasCommand("systemd-analyze")) ||
+    (await sh`systemd-analyze calendar ${interval}`.readOnly().quiet().nothrow()).exitCode === 0
+  if (!valid) {
+    logger.error(`Invalid --interval "${interval}": use daily, weekly, hourly or a systemd OnCalendar expression`)
+    process.exit(1)
+  }
+
+  const wrapper = join(CONFIG.binDir, "update-1code")
+  if (!existsSync(wrapper)) await installUpdateCommand()
+
+  const autoUpdate = options["auto-update"] ?? false
+  if (autoUpdate && (loadState().mode ?? "system") === "system") {
+    logger.warn("Unattended updates of a system-wide install run sudo without a terminal:")
+    logger.log("    they only succeed with passwordless sudo; failures are reported by notification")
+  }
+
+  // The user manager's PATH rarely includes bun: keep the one the wrapper works with now.
+  // ExecStart also expands $VARIABLES, so a literal $ in the wrapper path is doubled
+  const service = `[Unit]
+Description=Check for 1Code updates${autoUpdate ? " and install them" : ""}
+After=network-online.target
+
+[Service]
+Type=oneshot
+Environment=${systemdQuote(`PATH=${process.env.PATH ?? "/usr/local/bin:/usr/bin:/bin"}`)}
+ExecStart=${systemdQuote(wrapper).replace(/\$/g, "$$$$")} scheduled-check --non-interactive${autoUpdate ? " --auto-update" : ""}
+StandardOutput=append:${systemdLiteral(SCHEDULE_LOG)}
+StandardError=append:${systemdLiteral(SCHEDULE_LOG)}
+`
+  const timer = `[Unit]
+Description=Check for 1Code updates ${interval}
+
+[Timer]
+OnCalendar=${interval}
+Persistent=true
+RandomizedDelaySec=15min
+
+[Install]
+WantedBy=timers.target
+`
+  const units = scheduleUnitPaths()
+  await sh`mkdir -p ${SYSTEMD_USER_DIR} ${CONFIG.stateDir}`
+  await runner.writeFile(units.service, service)
+  await runner.writeFile(units.timer, timer)
+  await sh`systemctl --user daemon-reload`
+  await sh`systemctl --user enable --now ${`${SCHEDULE_UNIT}.timer`}`
+
+  logger.success(`Checking for updates ${interval}${autoUpdate ? ", installing them when 1Code is closed" : ""}`)
+  logger.log(`    Log: ${SCHEDULE_LOG}`)
+}
+
+/** Stop the timer and remove its units */
+async function disableSchedule(): Promise<void> {
+  const units = scheduleUnitPaths()
+  if (!existsSync(units.timer)) {
+    logger.log("Scheduled checks are not enabled")
+    return
+  }
+  await sh`systemctl --user disable --now ${`${SCHEDULE_UNIT}.timer`}`.nothrow()
+  await sh`rm -f ${units.service} ${units.timer}`
+  await sh`systemctl --user daemon-reload`.nothrow()
+  logger.success("Scheduled checks disabled")
+}
+
+/** Show whether the timer is enabled, its settings and when it runs */
+async function showSchedule(): Promise<void> {
+  const units = scheduleUnitPaths()
+  if (!existsSync(units.timer)) {
+    logger.log("Scheduled checks are not enabled (enable with: update-1code schedule enable)")
+    return
+  }
+
+  const interval = readFileSync(units.timer, "utf8").match(/^OnCalendar=(.*)$/m)?.[1] ?? "unknown"
+  const autoUpdate = existsSync(units.service) && readFileSync(units.service, "utf8").includes("--auto-update")
+  const enabled = (await sh`systemctl --user is-enabled ${`${SCHEDULE_UNIT}.timer`}`.readOnly().nothrow().text()).trim()
+  const show = async (unit: string, property: string) =>
+    (await sh`systemctl --user show ${unit} -p ${property} --value`.readOnly().nothrow().text()).trim() || "n/a"
+
+  logger.header("Scheduled update checks:")
+  logger.log(`  Timer:       ${enabled || "unknown"}`)
+  logger.log(`  Interval:    ${interval}`)
+  logger.log(`  Mode:        ${autoUpdate ? "check and install updates when 1Code is closed" : "check and notify"}`)
+  logger.log(`  Next run:    ${await show(`${SCHEDULE_UNIT}.timer`, "NextElapseUSecRealtime")}`)
+  logger.log(`  Last run:    ${await show(`${SCHEDULE_UNIT}.timer`, "LastTriggerUSec")}`)
+  logger.log(`  Last result: ${await show(`${SCHEDULE_UNIT}.service`, "Result")}`)
+  logger.log(`  Log:         ${SCHEDULE_LOG}`)
+}
+
+/** Run by the timer: notify about a new release, or install it unattended when asked and 1Code is closed */
+async function scheduledCheck(options: { "auto-update"?: boolean }): Promise<void> {
+  const { current, targetTag, newer } = await checkForUpdate()
+  if (newer.length === 0) {
+    logger.log(`Up to date (${current})`)
+    return
+  }
+
+  const [from, to] = [describeRef(current), describeRef(targetTag)]
+  logger.log(`Update available: ${from} → ${to}`)
+  if (!options["auto-update"]) {
+    await notify("1Code update available", `${from} → ${to}. Run 'update-1code update' to install it.`)
+    return
+  }
+  if (await isProcessRunning(basename(CONFIG.appPath))) {
+    await notify("1Code update available", `${to} will be installed once 1Code is closed.`)
+    return
+  }
+
+  // update() exits on failure, and exit handlers can't await the runner
+  process.on("exit", (code) => {
+    if (code === 0 || runner.dryRun) return
+    try {
+      Bun.spawnSync(["notify-send", "--app-name=1Code", "1Code update failed", "See: update-1code logs show"])
+    } catch {
+      // No notify-send: the failure is in the log
+    }
+  })
+  await update({})
+  await notify("1Code updated", `Now on ${to}`)
+}
+
+// ============================================================
+// Offline Bundles - build and install without network access
+// ============================================================
+
+const BUNDLE_MANIFEST = "bundle.json"
+
+interface BundleManifest {
+  formatVersion: 1
+  createdAt: string
+  /** Tag, or commit for branch and nightly builds */
+  tag: string
+  commit: string
+  /** Where the source came from; becomes origin so later online updates work */
+  source: string
+  installer: { version: string; repo: string }
+  /** Claude download cache key the bundled binary belongs to */
+  claudeKey: string | null
+  /** Payload files, checked before anything is built */
+  files: { path: string; size: number; sha256: string }[]
+}
+
+/** Download caches electron-builder needs while packaging, relative to ~/.cache */
+const BUILD_TOOL_CACHES = ["electron", "electron-builder"]
+
+/** Pack the source at a tag with its node_modules, Claude binary and build tool caches into one archive */
+async function createBundle(file: string | undefined, options: { version?: string }): Promise<void> {
+  if (!existsSync(join(CONFIG.installDir, ".git"))) {
+    logger.error("1Code is not installed, nothing to bundle")
+    logger.log(`Run: bunx github:${INSTALLER_REPO}`)
+    process.exit(1)
+  }
+  runner.chdir(CONFIG.installDir)
+  const tag = options.version ?? recentReleases().current?.tag ?? (await getCurrentTag())
+  if (!(await refExistsLocally(tag))) {
+    await fetchSource()
+    await fetchTarget(tag)
+  }
+  const commit = (await sh`git rev-parse ${`${tag}^{commit}`}`.readOnly().text()).trim()
+  const extension = (await hasCommand("zstd")) ? ".tar.zst" : ".tar.gz"
+  const output = resolve(file ?? `1code-${describeRef(tag).replace(/[^\w.-]+/g, "-")}-bundle${extension}`)
+
+  const work = runner.makeTempDir()
+  const dir = join(work, "source")
+  const payload = join(work, "payload")
+  try {
+    // Install and download in a scratch checkout, reusing the live node_modules and cached binary when they match
+    logger.step(`Preparing ${describeRef(tag)}...`)
+    await sh`git worktree add --detach ${dir} ${tag}`.cwd(CONFIG.installDir)
+    const ctx: BuildContext = { tag, dir, format: await resolveFormat(), mode: loadState().mode ?? "system" }
+    runner.chdir(dir)
+    await installDependencies(ctx)
+    await rebuildNativeIfChanged(ctx)
+    await downloadClaude(ctx)
+    runner.chdir(CONFIG.installDir)
+
+    logger.step("Packing bundle...")
+    await sh`mkdir -p ${payload}`
+    await sh`git bundle create ${join(payload, "source.bundle")} HEAD ${isCommitRef(tag) ? [] : [tag]}`.cwd(dir)
+    await sh`tar -cf ${join(payload, "node_modules.tar")} node_modules`.cwd(dir)
+    const claudeKey = claudeDownloadKey(dir)
+    const claudeCache = claudeKey ? join(claudeCacheDir(), claudeKey) : null
+    if (claudeCache && existsSync(claudeCache)) {
+      await sh`tar -cf ${join(payload, "claude.tar")} -C ${claudeCache} .`
+    }
+    const toolCaches = BUILD_TOOL_CACHES.filter((name) => existsSync(join(homedir(), ".cache", name)))
+    if (toolCaches.length > 0) {
+      await sh`tar -cf ${join(payload, "tool-caches.tar")} -C ${join(homedir(), ".cache")} ${toolCaches}`
+    }
+
+    const manifest: BundleManifest = {
+      formatVersion: 1,
+      createdAt: new Date().toISOString(),
+      tag,
+      commit,
+      source: CONFIG.repoUrl,
+      installer: { version: INSTALLER_VERSION, repo: INSTALLER_REPO },
+      claudeKey,
+      files: runner.dryRun
+        ? []
+        : readdirSync(payload).map((path) => ({
+            path,
+            size: statSync(join(payload, path)).size,
+            sha256: sha256File(join(payload, path)),
+          })),
+    }
+    await runner.writeFile(join(payload, BUNDLE_MANIFEST), JSON.stringify(manifest, null, 2) + "\n")
+    await sh`tar -caf ${output} -C ${payload} .`
+  } finally {
+    await sh`git worktree remove --force ${dir}`.cwd(CONFIG.installDir).quiet().nothrow()
+    await sh`rm -rf ${work}`.nothrow()
+  }
+
+  if (runner.dryRun) return
+  logger.success(`Bundle: ${output} (${formatBytes(statSync(output).size)})`)
+  logger.log(`    Install it offline with: update-1code install --from-bundle ${basename(output)}`)
+}
+
+/** Extract a bundle and check every payload file against its manifest; exits when anything is wrong */
+async function openBundle(file: string, dir: string): Promise<BundleManifest> {
+  const extracted = await sh`tar -xf ${file} -C ${dir}`.readOnly().quiet().nothrow()
+  if (extracted.exitCode !== 0 || !existsSync(join(dir, BUNDLE_MANIFEST))) {
+    logger.error(`Not a bundle: ${file}`)
+    process.exit(1)
+  }
+
+  const manifest = JSON.parse(readFileSync(join(dir, BUNDLE_MANIFEST), "utf8")) as BundleManifest
+  if (manifest.formatVersion !== 1) {
+    logger.error(`Unsupported bundle format ${manifest.formatVersion}`)
+    process.exit(1)
+  }
+  const errors = manifest.files.flatMap(({ path, size, sha256 }) => {
+    const payload = join(dir, path)
+    if (!existsSync(payload)) return [`${path} is missing`]
+    if (statSync(payload).size !== size || sha256File(payload) !== sha256) return [`${path} checksum mismatch`]
+    return []
+  })
+  if (manifest.files.length === 0) errors.push("no payload files listed")
+  if (errors.length > 0) {
+    logger.error(`${basename(file)} is damaged: ${errors.join("; ")}`)
+    process.exit(1)
+  }
+  return manifest
+}
+
+/** Build and install from a bundle made by 'bundle create', with no fetch, ls-remote or update check */
+async function installFromBundle(file: string, options: InstallOptions): Promise<void> {
+  if (!existsSync(file)) {
+    logger.error(`Bundle not found: ${file}`)
+    process.exit(1)
+  }
+  if (options["refresh-deps"]) {
+    logger.error("--refresh-deps needs network access and cannot be combined with --from-bundle")
+    process.exit(1)
+  }
+
+  const bundleDir = mkdtempSync(join(tmpdir(), "1code-bundle-"))
+  try {
+    logger.step(`Verifying ${basename(file)}...`)
+    const manifest = await openBundle(resolve(file), bundleDir)
+    logger.success(`${manifest.files.length} payload file(s) verified`)
+    if (manifest.installer.version !== INSTALLER_VERSION) {
+      logger.warn(`Bundle was made by installer ${manifest.installer.version}, this is ${INSTALLER_VERSION}`)
+    }
+
+    const mode = resolveMode(options)
+    await checkDependencies(mode)
+    const format = await resolveFormat(options.format)
+    const { tag } = manifest
+    logger.log(`\n  Version:        ${describeRef(tag)} (from bundle, ${manifest.createdAt.slice(0, 10)})`)
+    logger.log(`  Package format: ${format}`)
+    logger.log(`  Install mode:   ${mode}`)
+
+    const sourceBundle = join(bundleDir, "source.bundle")
+    if (existsSync(join(CONFIG.installDir, ".git"))) {
+      logger.warn("Existing installation found.")
+      if (!confirm(`Switch it to ${describeRef(tag)} from the bundle?`, { default: false })) {
+        process.exit(0)
+      }
+      runner.chdir(CONFIG.installDir)
+      await sh`git fetch ${sourceBundle} ${"+refs/tags/*:refs/tags/*"} HEAD`
+      await updateRepo(tag)
+    } else {
+      logger.step("Unpacking source...")
+      await sh`mkdir -p ${join(CONFIG.installDir, "..")}`
+      await sh`git clone ${sourceBundle} ${CONFIG.installDir}`
+      await sh`git checkout --detach ${manifest.commit}`.cwd(CONFIG.installDir)
+      // The bundle is temporary; point origin where online updates fetch from
+      await sh`git remote set-url origin ${manifest.source}`.cwd(CONFIG.installDir)
+      runner.chdir(CONFIG.installDir)
+    }
+    await verifySource(tag, { offline: true })
+
+    // Seed everything the build would otherwise download
+    logger.step("Unpacking dependencies...")
+    await sh`rm -rf ${join(CONFIG.installDir, "node_modules")}`
+    await sh`tar -xf ${join(bundleDir, "node_modules.tar")} -C ${CONFIG.installDir}`
+    if (manifest.claudeKey && existsSync(join(bundleDir, "claude.tar"))) {
+      const cached = join(claudeCacheDir(), manifest.claudeKey)
+      await sh`mkdir -p ${cached}`
+      await sh`tar -xf ${join(bundleDir, "claude.tar")} -C ${cached}`
+    }
+    if (existsSync(join(bundleDir, "tool-caches.tar"))) {
+      await sh`mkdir -p ${join(homedir(), ".cache")}`
+      await sh`tar -xf ${join(bundleDir, "tool-caches.tar")} -C ${join(homedir(), ".cache")}`
+    }
+
+    const ctx: BuildContext = { tag, format, mode, dir: CONFIG.installDir }
+    const failed = await runBuild(ctx, [...BUILD_STEPS])
+    if (failed) await handleBuildFailure(ctx, failed)
+    await installUpdateCommand()
+  } finally {
+    rmSync(bundleDir, { recursive: true, force: true })
+  }
+
+  logger.log("")
+  logger.divider()
+  if (runner.dryRun) {
+    logger.success("Dry run finished - nothing was changed")
+  } else {
+    logger.success("Installed from bundle")
+    logger.log("  Launch: 1Code from application menu")
+  }
+  logger.divider()
 }
 
 // ============================================================
 // Main Commands
 // ============================================================
 
+/** Options shared by install and update */
+interface InstallOptions extends StepSelection {
+  format?: string
+  user?: boolean
+  system?: boolean
+  /** Tag to install instead of the latest/pinned one */
+  version?: string
+  /** Release channel, remembered for later updates */
+  channel?: string
+  /** Git URL or local checkout to build from, remembered */
+  source?: string
+  /** Branch, tag or commit to follow instead of the channel, remembered */
+  ref?: string
+  /** Re-resolve dependencies instead of installing upstream's lockfile */
+  "refresh-deps"?: boolean
+  /** Offline bundle to install from instead of the network */
+  "from-bundle"?: string
+}
+
 /** Fresh installation */
-async function install(): Promise<void> {
+async function install(options: InstallOptions = {}): Promise<void> {
   logger.banner("1Code Linux Installer (Unofficial)")
 
+  if (options["from-bundle"]) {
+    await installFromBundle(options["from-bundle"], options)
+    return
+  }
+
+  const mode = resolveMode(options)
+
   await checkInstallerUpdate()
-  await checkDependencies()
+  await checkDependencies(mode)
 
   const isUpdate = existsSync(join(CONFIG.installDir, ".git"))
 
   if (isUpdate) {
     logger.warn("Existing installation found. Use 'update' command instead.")
-    const response = prompt("Continue with reinstall? [y/N] ")
-    if (response?.toLowerCase() !== "y") {
+    if (!confirm("Continue with reinstall?", { default: false })) {
       process.exit(0)
     }
   }
 
-  const latestTag = await getLatestTag()
-  logger.log(`\n  Latest version: ${latestTag}`)
+  const format = await resolveFormat(options.format)
+  const channel = resolveChannel(options.channel)
+  if (options.channel) await saveState({ channel })
+  await rememberSource(options)
+  const ref = resolveFollowedRef(options.ref)
+  const targetTag = await resolveTargetTag(options.version, channel, ref)
+  const { pinnedTag } = loadState()
+  logger.log(`\n  Version:        ${describeRef(targetTag)}${targetTag === pinnedTag ? " (pinned)" : ""}`)
+  logger.log(ref ? `  Ref:            ${ref}` : `  Channel:        ${channel}`)
+  logger.log(`  Source:         ${CONFIG.repoUrl}`)
+  logger.log(`  Package format: ${format}`)
+  logger.log(`  Install mode:   ${mode}`)
 
   if (!isUpdate) {
-    await cloneRepo(latestTag)
+    await cloneRepo(targetTag)
   }
 
-  process.chdir(CONFIG.installDir)
+  runner.chdir(CONFIG.installDir)
 
   if (isUpdate) {
-    await $`git fetch --tags`
-    await $`git fetch origin main`
-    await updateRepo(latestTag)
+    await fetchSource()
+    await fetchTarget(targetTag)
+    await updateRepo(targetTag)
   }
+  await verifySource(targetTag)
 
-  await buildApp()
-  await installDeb()
+  const ctx: BuildContext = { tag: targetTag, format, mode, dir: CONFIG.installDir, refreshDeps: options["refresh-deps"] }
+  const failed = await runBuild(ctx, [...BUILD_STEPS])
+  if (failed) await handleBuildFailure(ctx, failed)
   await installUpdateCommand()
 
   logger.log("")
   logger.divider()
-  if (existsSync(CONFIG.appPath)) {
+  if (runner.dryRun) {
+    logger.success("Dry run finished - nothing was changed")
+  } else if (existsSync(installLayout(format, mode).appPath)) {
     logger.success("Installation successful!")
     logger.log("")
     logger.log("  Launch: 1Code from application menu")
@@ -630,15 +4187,20 @@ async function install(): Promise<void> {
     }
   } else {
     logger.error("Installation may have failed")
-    logger.log("  Try running: sudo dpkg -i release/*.deb")
+    logger.log(`  Try running: ${manualPackageInstallHint(format, mode)}`)
   }
   logger.divider()
 }
 
 /** Update existing installation */
-async function update(): Promise<void> {
+async function update(options: InstallOptions = {}): Promise<void> {
   logger.banner("1Code Linux Updater (Unofficial)")
 
+  if (options.resume || options.from || options.only) {
+    await resumeUpdate(options)
+    return
+  }
+
   await checkInstallerUpdate()
 
   // Backup settings before update
@@ -659,43 +4221,55 @@ async function update(): Promise<void> {
     process.exit(1)
   }
 
-  await checkDependencies()
-  process.chdir(CONFIG.installDir)
+  const mode = resolveMode(options)
+  await checkDependencies(mode)
+  const format = await resolveFormat(options.format)
+  const channel = resolveChannel(options.channel)
+  if (options.channel) await saveState({ channel })
+  await rememberSource(options)
+  const ref = resolveFollowedRef(options.ref)
+  runner.chdir(CONFIG.installDir)
 
-  logger.step("Fetching latest from origin...")
-  await $`git fetch --tags`
-  await $`git fetch origin main`
+  logger.step(`Fetching latest from ${CONFIG.repoUrl}...`)
+  await fetchSource()
 
-  const latestTag = await getLatestTag()
+  const targetTag = await resolveTargetTag(options.version, channel, ref)
+  await fetchTarget(targetTag)
   const currentTag = await getCurrentTag()
+  const { pinnedTag } = loadState()
 
-  logger.log(`    Current: ${currentTag}`)
-  logger.log(`    Latest:  ${latestTag}`)
+  logger.log(`    Current: ${describeRef(currentTag)}`)
+  if (targetTag === pinnedTag) {
+    logger.log(`    Pinned:  ${targetTag} (run 'update-1code unpin' to follow latest)`)
+  } else {
+    logger.log(`    Target:  ${describeRef(targetTag)} (${ref ? `following ${ref}` : `${channel} channel`})`)
+  }
+  await verifySource(targetTag)
 
-  if (currentTag === latestTag) {
+  if (await sameCommit(currentTag, targetTag)) {
     logger.log("")
-    logger.success("Already on latest version")
+    logger.success(`Already on ${describeRef(targetTag)}`)
 
-    const response = prompt("Rebuild anyway? [y/N] ")
-    if (response?.toLowerCase() !== "y") {
+    if (!confirm("Rebuild anyway?", { default: false })) {
       process.exit(0)
     }
-  } else {
-    await updateRepo(latestTag)
   }
 
-  await buildApp()
-  await installDeb()
+  // Ask about local changes now rather than after a long build
+  await ensureCleanCheckout(targetTag)
+  await stagedBuild({ tag: targetTag, format, mode, backup: backupResult.path, refreshDeps: options["refresh-deps"] })
+  await finishUpdate(format, mode, backupResult.path)
+}
 
-  // Verify settings after update
+/** Verify settings after an update, offer to restore them, and print the result */
+async function finishUpdate(format: PackageFormat, mode: InstallMode, backupPath?: string): Promise<void> {
   logger.step("Verifying settings...")
   const { ok, missing } = verifySettings()
 
-  if (!ok && backupResult.path) {
+  if (!ok && backupPath) {
     logger.warn(`Settings affected! Missing: ${missing.join(", ")}`)
-    const response = prompt("Restore from backup? [Y/n] ")
-    if (response?.toLowerCase() !== "n") {
-      const restoreResult = await restoreSettings(backupResult.path)
+    if (confirm("Restore from backup?", { default: true })) {
+      const restoreResult = await restoreSettings(backupPath)
       if (restoreResult.success) {
         logger.success("Settings restored from backup")
       } else {
@@ -710,7 +4284,9 @@ async function update(): Promise<void> {
 
   logger.log("")
   logger.divider()
-  if (existsSync(CONFIG.appPath)) {
+  if (runner.dryRun) {
+    logger.success("Dry run finished - nothing was changed")
+  } else if (existsSync(installLayout(format, mode).appPath)) {
     logger.success("Update successful!")
     logger.log("  Launch 1Code from your application menu")
   } else {
@@ -719,8 +4295,385 @@ async function update(): Promise<void> {
   logger.divider()
 }
 
-/** Interactive restore from backup */
-async function interactiveRestore(): Promise<void> {
+/** Rerun part of the build on the current checkout: --resume, --from or --only */
+async function resumeUpdate(options: InstallOptions): Promise<void> {
+  if (!existsSync(join(CONFIG.installDir, ".git"))) {
+    logger.error("1Code is not installed.")
+    logger.log(`Run: bunx github:${INSTALLER_REPO}`)
+    process.exit(1)
+  }
+
+  const state = loadBuildState()
+  if (options.resume && !state) {
+    logger.error("No interrupted build to resume")
+    logger.log("    Run 'update-1code update' to start a new one")
+    process.exit(1)
+  }
+  if (state && !existsSync(state.dir)) {
+    logger.error(`The checkout of the saved build is gone: ${state.dir}`)
+    logger.log("    Run 'update-1code update' to start a new build")
+    process.exit(1)
+  }
+
+  runner.chdir(state?.dir ?? CONFIG.installDir)
+  const ctx: BuildContext = state ?? {
+    tag: await getCurrentTag(),
+    format: await resolveFormat(options.format),
+    mode: resolveMode(options),
+    dir: CONFIG.installDir,
+  }
+  if (options["refresh-deps"]) ctx.refreshDeps = true
+  const currentTag = await getCurrentTag()
+  if (currentTag !== ctx.tag) {
+    logger.error(`Saved build is for ${ctx.tag} but the checkout is on ${currentTag}`)
+    logger.log("    Run 'update-1code update' to start a new build")
+    process.exit(1)
+  }
+
+  await checkDependencies(ctx.mode)
+  const steps = selectBuildSteps(options, state)
+  logger.log(`    Building ${ctx.tag}: ${steps.map((s) => s.name).join(" → ")}`)
+
+  const failed = await runBuild(ctx, steps, state)
+  if (failed) await handleBuildFailure(ctx, failed)
+  await finishUpdate(ctx.format, ctx.mode, ctx.backup)
+}
+
+/** Where the install stands against upstream */
+interface UpdateCheck {
+  checkoutTag: string
+  latestTag: string
+  /** Latest tag, or the pinned one */
+  targetTag: string
+  /** Installed release, or the checkout's tag when nothing was recorded */
+  current: string
+  /** Tags after current up to the target, oldest first */
+  newer: string[]
+}
+
+/** Fetch the source and work out which releases the install is behind; exits when 1Code is not installed */
+async function checkForUpdate(channel: Channel = resolveChannel(), ref = resolveFollowedRef()): Promise<UpdateCheck> {
+  if (!existsSync(join(CONFIG.installDir, ".git"))) {
+    logger.error("1Code is not installed.")
+    logger.log(`Run: bunx github:${INSTALLER_REPO}`)
+    process.exit(1)
+  }
+  runner.chdir(CONFIG.installDir)
+
+  // Fetch from the URL itself: origin is only switched to a new source by install and update
+  await sh`git fetch --tags --quiet ${CONFIG.repoUrl}`.nothrow()
+  const checkoutTag = await getCurrentTag()
+  const latestTag = ref ? await resolveRef(ref) : await getLatestTag(channel)
+  const targetTag = loadState().pinnedTag ?? latestTag
+  if (!(await refExistsLocally(targetTag))) await sh`git fetch --quiet ${CONFIG.repoUrl} ${targetTag}`.nothrow()
+  const current = recentReleases().current?.tag ?? checkoutTag
+
+  // Nightly and branches follow commits, not tags: anything but the branch's HEAD is behind
+  if (isCommitRef(targetTag)) {
+    return { checkoutTag, latestTag, targetTag, current, newer: (await sameCommit(current, targetTag)) ? [] : [targetTag] }
+  }
+  const newer = (await listTags()).filter(
+    (tag) =>
+      compareVersions(tag, current) > 0 &&
+      compareVersions(tag, targetTag) <= 0 &&
+      (tag === targetTag || channel !== "stable" || !parseVersion(tag)?.prerelease.length)
+  )
+  return { checkoutTag, latestTag, targetTag, current, newer }
+}
+
+/** Show what is installed, what upstream has and the changes in between, without building */
+async function status(options: { channel?: string; ref?: string } = {}): Promise<void> {
+  logger.banner("1Code Status")
+
+  const channel = resolveChannel(options.channel)
+  const ref = options.channel && !options.ref ? undefined : resolveFollowedRef(options.ref)
+  const show = (tag: string) => describeRef(tag, ref)
+  logger.step(`Fetching ${CONFIG.repoUrl}...`)
+  const { checkoutTag, latestTag, targetTag, current, newer } = await checkForUpdate(channel, ref)
+
+  const state = loadState()
+  const installed = recentReleases().current
+  const format = state.format ?? (await resolveFormat())
+  const mode = state.mode ?? "system"
+  const packageVersion = await installedPackageVersion(format, installLayout(format, mode).appPath)
+
+  logger.log(`    Installed package: ${packageVersion ?? show(installed?.tag ?? "unknown")} (${format}, ${mode})`)
+  logger.log(`    Source:            ${CONFIG.repoUrl}`)
+  logger.log(`    Source checkout:   ${show(checkoutTag)}`)
+  logger.log(`    Latest upstream:   ${show(latestTag)} (${ref ? `following ${ref}` : `${channel} channel`})`)
+  if (state.pinnedTag) logger.log(`    Pinned to:         ${state.pinnedTag}`)
+
+  // An interrupted update, or a rollback to a cached package, leaves the checkout and the installed package apart
+  const installedTag = installed?.tag
+  if (installedTag && !(await sameCommit(installedTag, checkoutTag))) {
+    logger.warn(`Installed package is ${show(installedTag)} but the checkout is on ${show(checkoutTag)}`)
+    if (loadBuildState()?.failed) {
+      logger.log("    Finish the interrupted update with: update-1code update --resume")
+    } else {
+      logger.log(`    ${show(installedTag)} was installed without rebuilding the checkout, e.g. by a rollback`)
+      logger.log("    Stay on it with: update-1code pin")
+      logger.log(`    Or reinstall ${show(checkoutTag)}, already built: update-1code update --only install`)
+    }
+  } else if (installedTag) {
+    logger.success("Installed package matches the checkout")
+  }
+
+  if (newer.length === 0) {
+    logger.log("")
+    logger.success(state.pinnedTag ? `Up to date with pinned ${targetTag}` : `Up to date (${show(current)})`)
+    return
+  }
+
+  const behind = isCommitRef(targetTag) ? `Behind ${ref ?? "main"}` : `${newer.length} release(s) behind`
+  logger.step(`${behind}: ${show(current)} → ${show(targetTag)}`)
+  let previous = current
+  for (const tag of newer) {
+    logger.log("")
+    logger.header(show(tag))
+    for (const line of await releaseNotes(previous, tag)) logger.log(line ? `  ${line}` : "")
+    previous = tag
+  }
+
+  logger.log("")
+  logger.log("    Update with: update-1code update")
+  process.exit(EXIT_CODES.updateAvailable)
+}
+
+/** Pin install/update to a tag (defaults to the installed one) */
+async function pinVersion(tag?: string): Promise<void> {
+  const target = tag ?? recentReleases().current?.tag
+  if (!target) {
+    logger.error("Nothing installed yet - specify a version: pin <tag>")
+    process.exit(1)
+  }
+  if (tag && !(await tagExists(tag))) {
+    logger.error(`Version ${tag} not found in ${CONFIG.repoUrl}`)
+    process.exit(1)
+  }
+
+  await saveState({ pinnedTag: target })
+  logger.success(`Pinned to ${target}`)
+  logger.log("    'update' will stay on this version until you run 'unpin'")
+}
+
+/** Remove the version pin so update follows the latest release again */
+async function unpinVersion(): Promise<void> {
+  const { pinnedTag } = loadState()
+  if (!pinnedTag) {
+    logger.log("No version pinned")
+    return
+  }
+  await saveState({ pinnedTag: undefined })
+  logger.success(`Unpinned (was ${pinnedTag})`)
+}
+
+/** Reinstall the release installed before the current one */
+async function rollback(options: InstallOptions = {}): Promise<void> {
+  logger.banner("1Code Linux Rollback (Unofficial)")
+
+  const { current, previous } = recentReleases()
+  if (!current || !previous) {
+    logger.error("No previous version recorded to roll back to")
+    process.exit(1)
+  }
+
+  const mode = resolveMode(options)
+  const format = await resolveFormat(options.format)
+  logger.log(`    Current:  ${current.tag}`)
+  logger.log(`    Previous: ${previous.tag}`)
+
+  let cached = previous.format === format && previous.artifact && existsSync(previous.artifact) ? previous.artifact : undefined
+  if (cached && previous.sha256 && sha256File(cached) !== previous.sha256) {
+    logger.warn(`Cached package for ${previous.tag} no longer matches its recorded SHA-256, not using it`)
+    cached = undefined
+  }
+  if (cached) {
+    logger.step(`Reinstalling cached package for ${previous.tag}...`)
+    await installPackage(format, mode, cached)
+  } else {
+    logger.log(`    No cached ${format} package for ${previous.tag}, rebuilding from source`)
+    if (!existsSync(join(CONFIG.installDir, ".git"))) {
+      logger.error("Source checkout not found, cannot rebuild")
+      process.exit(1)
+    }
+    await checkDependencies(mode)
+    runner.chdir(CONFIG.installDir)
+    await fetchSource()
+    await ensureCleanCheckout(previous.tag)
+    await verifySource(previous.tag)
+    await stagedBuild({ tag: previous.tag, format, mode, backup: previous.backup, refreshDeps: options["refresh-deps"] })
+  }
+
+  // Drop the rolled-back release so a second rollback goes one further
+  const history = (loadState().history ?? []).filter((r) => r.tag !== current.tag)
+  await saveState({ history })
+
+  // The backup taken before the current release was installed holds the previous version's settings
+  if (current.backup && existsSync(current.backup)) {
+    logger.log("")
+    logger.log(`    Settings backup from before ${current.tag}: ${basename(current.backup)}`)
+    if (confirm("Restore these settings too?", { default: false })) {
+      const result = await restoreSettings(current.backup)
+      if (result.success) {
+        logger.success("Settings restored from backup")
+      } else {
+        logger.error(`Restore failed: ${result.error}`)
+      }
+    }
+  }
+
+  logger.log("")
+  logger.divider()
+  if (runner.dryRun) {
+    logger.success("Dry run finished - nothing was changed")
+  } else if (existsSync(installLayout(format, mode).appPath)) {
+    logger.success(`Rolled back to ${previous.tag}`)
+    logger.log(`  Run 'update-1code pin' to stay on this version`)
+  } else {
+    logger.error("Rollback may have failed")
+  }
+  logger.divider()
+}
+
+/** Options for the uninstall command */
+interface UninstallOptions {
+  /** Delete settings and backups without asking */
+  purge?: boolean
+  /** Keep settings and backups without asking */
+  "keep-settings"?: boolean
+}
+
+/** Version the package manager reports for the installed app, null for tar/AppImage installs */
+async function installedPackageVersion(format: PackageFormat, appPath: string): Promise<string | null> {
+  if (format !== "deb" && format !== "rpm") return null
+  const name = await installedPackageName(format, appPath)
+  const query =
+    format === "deb" ? sh`dpkg-query -W -f=${"${Version}"} ${name}` : sh`rpm -q --qf ${"%{VERSION}"} ${name}`
+  const result = await query.readOnly().quiet().nothrow()
+  return result.exitCode === 0 && result.stdout.trim() ? result.stdout.trim() : null
+}
+
+/** Name of the installed distro package, queried from the package database */
+async function installedPackageName(format: "deb" | "rpm", appPath: string): Promise<string> {
+  const fallback = basename(CONFIG.appPath)
+  if (format === "deb") {
+    const owner = await sh`dpkg-query -S ${appPath}`.readOnly().nothrow().text()
+    return owner.split(":")[0]?.trim() || fallback
+  }
+  const owner = await sh`rpm -qf --qf '%{NAME}' ${appPath}`.readOnly().quiet().nothrow()
+  return owner.exitCode === 0 ? owner.stdout.trim() : fallback
+}
+
+/** Remove the installed app, its desktop entry and icons */
+async function removeInstalledApp(format: PackageFormat, mode: InstallMode): Promise<void> {
+  const layout = installLayout(format, mode)
+  const icons = existsSync(layout.iconsDir)
+    ? readdirSync(layout.iconsDir)
+        .map((size) => join(layout.iconsDir, size, "apps", `${ICON_NAME}.png`))
+        .filter((icon) => existsSync(icon))
+    : []
+
+  if (mode === "user") {
+    await sh`rm -rf ${layout.appDir}`
+    await sh`rm -f ${layout.desktopEntryPath} ${icons}`.nothrow()
+    await sh`update-desktop-database ${dirname(layout.desktopEntryPath)} 2>/dev/null || true`.quiet().nothrow()
+    return
+  }
+
+  logger.log("    (requires sudo password)")
+  if (format === "deb") {
+    await sh`sudo dpkg -r ${await installedPackageName(format, layout.appPath)}`
+  } else if (format === "rpm") {
+    await sh`sudo rpm -e ${await installedPackageName(format, layout.appPath)}`
+  } else {
+    await sh`sudo rm -rf ${layout.appDir}`
+    await sh`sudo rm -f ${layout.desktopEntryPath} ${icons}`.nothrow()
+  }
+  await sh`sudo update-desktop-database 2>/dev/null || true`.quiet().nothrow()
+}
+
+/** Remove 1Code, the source checkout and the update command */
+async function uninstall(options: UninstallOptions = {}): Promise<void> {
+  logger.banner("1Code Linux Uninstaller (Unofficial)")
+
+  if (options.purge && options["keep-settings"]) {
+    logger.error("--purge and --keep-settings cannot be combined")
+    process.exit(1)
+  }
+
+  const appProcess = basename(CONFIG.appPath)
+  if (await isProcessRunning(appProcess)) {
+    logger.error("1Code is running. Quit it before uninstalling.")
+    process.exit(1)
+  }
+
+  const state = loadState()
+  const mode = state.mode ?? "system"
+  const format = await resolveFormat()
+
+  logger.step(`Removing 1Code (${format}, ${mode})...`)
+  if (existsSync(installLayout(format, mode).appPath)) {
+    await removeInstalledApp(format, mode)
+    logger.success("App removed")
+  } else {
+    logger.log("    App not installed")
+  }
+
+  logger.step("Removing source checkout...")
+  await sh`rm -rf ${CONFIG.installDir} ${stagingDir()}`
+  logger.success(`Removed ${CONFIG.installDir}`)
+
+  logger.step("Removing update command...")
+  await sh`rm -f ${join(CONFIG.binDir, "update-1code")}`
+  logger.success(`Removed ${join(CONFIG.binDir, "update-1code")}`)
+
+  // Installer data: cached packages, then state and logs below
+  await sh`rm -rf ${CONFIG.cacheDir}`
+  let keepState = false
+
+  const settingsDirs = [CONFIG.configDir, CONFIG.backupDir].filter((dir) => existsSync(dir))
+  if (settingsDirs.length > 0) {
+    logger.step("Settings and backups")
+    settingsDirs.forEach((dir) => logger.log(`    ${dir}`))
+
+    let purge = options.purge ?? false
+    if (!options.purge && !options["keep-settings"]) {
+      purge = confirm("Delete settings and backups too?", { default: false, destructiveFlag: "--purge" })
+    }
+
+    if (purge) {
+      await sh`rm -rf ${settingsDirs}`
+      logger.success("Settings and backups deleted")
+    } else {
+      logger.success("Settings and backups kept")
+      keepState = true
+    }
+  }
+
+  // Kept settings keep state.json too: it holds the backup pins and which backup each release was installed with
+  if (!keepState) {
+    await sh`rm -rf ${CONFIG.stateDir}`
+  } else if (existsSync(CONFIG.stateDir)) {
+    const others = readdirSync(CONFIG.stateDir).filter((name) => name !== basename(STATE_FILE))
+    if (others.length > 0) await sh`rm -rf ${others.map((name) => join(CONFIG.stateDir, name))}`
+  }
+
+  logger.log("")
+  logger.divider()
+  logger.success(runner.dryRun ? "Dry run finished - nothing was changed" : "1Code uninstalled")
+  logger.divider()
+}
+
+/** Find a backup by list index (1 = newest) or name */
+function findBackup(backups: string[], selection: string): string | null {
+  if (/^\d+$/.test(selection)) {
+    return backups[parseInt(selection) - 1] ?? null
+  }
+  return backups.find((b) => basename(b) === basename(selection)) ?? null
+}
+
+/** Restore from a backup given by index or name, asking interactively when none is given */
+async function interactiveRestore(selection?: string, only?: string): Promise<void> {
   const backups = listBackups()
 
   if (backups.length === 0) {
@@ -728,23 +4681,27 @@ async function interactiveRestore(): Promise<void> {
     process.exit(1)
   }
 
-  logger.log("Available backups:")
-  backups.forEach((b, i) => logger.log(`  ${i + 1}. ${basename(b)}`))
+  if (!selection) {
+    logger.log("Available backups:")
+    backups.forEach((b, i) => logger.log(`  ${i + 1}. ${basename(b)}`))
 
-  const choice = prompt("Enter number to restore (or 'q' to quit): ")
-  if (choice?.toLowerCase() === "q") {
-    process.exit(0)
+    const choice = ask("Enter number to restore (or 'q' to quit): ", "Pass the backup to restore: restore <number|name>")
+    if (choice?.toLowerCase() === "q") {
+      process.exit(0)
+    }
+    selection = choice || ""
   }
 
-  const idx = parseInt(choice || "0") - 1
-  if (idx < 0 || idx >= backups.length) {
-    logger.error("Invalid selection")
+  const backup = findBackup(backups, selection)
+  if (!backup) {
+    logger.error(`Invalid selection: ${selection}`)
     process.exit(1)
   }
 
-  const result = await restoreSettings(backups[idx])
+  const paths = only?.split(",").map((p) => p.trim()).filter(Boolean)
+  const result = await restoreSettings(backup, paths)
   if (result.success) {
-    logger.success("Settings restored successfully")
+    logger.success(`${paths ? paths.join(", ") : "Settings"} restored from ${basename(backup)}`)
     logger.log("  Restart 1Code to apply restored settings")
   } else {
     logger.error(`Failed to restore settings: ${result.error}`)
@@ -760,8 +4717,262 @@ function showBackups(): void {
     logger.log("No backups found")
   } else {
     logger.header("Available backups:")
-    backups.forEach((b) => logger.log(`  ${basename(b)}`))
+    backups.forEach((b, i) => logger.log(`  ${i + 1}. ${basename(b)}${isPinnedBackup(b) ? " (pinned)" : ""}`))
+  }
+}
+
+/** Find a backup given on the command line, exiting with usage when missing */
+function requireBackup(selection: string | undefined, usage: string): string {
+  const backup = selection ? findBackup(listBackups(), selection) : null
+  if (!backup) {
+    logger.error(selection ? `Backup not found: ${selection}` : `Usage: ${usage}`)
+    process.exit(1)
+  }
+  return backup
+}
+
+/** Pin or unpin a backup so retention keeps it forever */
+async function setBackupPinned(selection: string | undefined, pinned: boolean): Promise<void> {
+  const backup = requireBackup(selection, `backups ${pinned ? "pin" : "unpin"} <number|name>`)
+  const others = (loadState().pinnedBackups ?? []).filter((name) => name !== basename(backup))
+  await saveState({ pinnedBackups: pinned ? [...others, basename(backup)] : others })
+  logger.success(`${pinned ? "Pinned" : "Unpinned"} ${basename(backup)}`)
+}
+
+/** Delete backups the retention policy no longer keeps */
+async function pruneBackups(): Promise<void> {
+  const pruned = backupsToPrune()
+  if (pruned.length === 0) {
+    logger.log("Nothing to prune: every backup is kept by the retention policy")
+    return
+  }
+
+  logger.header("Backups outside the retention policy:")
+  pruned.forEach((b) => logger.log(`  ${basename(b)}`))
+  if (!confirm(`Delete ${pruned.length} backup(s)?`, { default: true })) return
+
+  await rotateBackups()
+  logger.success(`Deleted ${pruned.length} backup(s)`)
+}
+
+/** Write the current settings to an archive for another machine; auth.dat stays behind unless asked for */
+async function exportSettings(file: string | undefined, includeAuth = false): Promise<void> {
+  if (!file || !isBackupArchive(file)) {
+    logger.error("Usage: backups export <file.tar.zst|file.tar.gz> [--include-auth]")
+    process.exit(1)
+  }
+  if (!existsSync(CONFIG.configDir)) {
+    logger.error(`No settings to export in ${CONFIG.configDir}`)
+    process.exit(1)
+  }
+
+  const target = resolve(file)
+  if (existsSync(target) && !confirm(`${target} exists. Overwrite?`, { default: false })) {
+    process.exit(1)
+  }
+
+  const exclude: string[] = []
+  if (!includeAuth && existsSync(join(CONFIG.configDir, "auth.dat"))) {
+    exclude.push("auth.dat")
+    logger.warn("Leaving out auth.dat: it is encrypted with this machine's keyring and unreadable elsewhere")
+    logger.log("    Sign in again after importing, or pass --include-auth to export it anyway")
+  }
+
+  const error = await writeBackupArchive(target, exclude)
+  if (error) {
+    logger.error(`Export failed: ${error}`)
+    process.exit(1)
+  }
+  logger.success(`Settings exported to ${target}`)
+}
+
+/** Verify an exported archive and add it to the backups, offering to restore it */
+async function importSettings(file: string | undefined): Promise<void> {
+  if (!file || !isBackupArchive(file) || !existsSync(file)) {
+    logger.error(file ? `Not a backup archive: ${file}` : "Usage: backups import <file.tar.zst|file.tar.gz>")
+    process.exit(1)
+  }
+
+  const errors = await verifyBackup(file)
+  if (errors.length > 0) {
+    logger.error(`${basename(file)} is damaged: ${errors.join("; ")}`)
+    process.exit(1)
+  }
+
+  const extension = BACKUP_EXTENSIONS.find((ext) => file.endsWith(ext)) ?? ".tar.gz"
+  const backupPath = newBackupPath(extension, "imported")
+  await sh`mkdir -p ${CONFIG.backupDir}`
+  await sh`cp ${file} ${backupPath}`
+  await rotateBackups([backupPath])
+  logger.success(`Imported as ${basename(backupPath)}`)
+
+  if (!confirm("Restore it now?", { default: false })) {
+    logger.log(`  Restore it later with: update-1code restore ${basename(backupPath)}`)
+    return
+  }
+  await interactiveRestore(basename(backupPath))
+}
+
+/** Show what changed between a backup and the current settings */
+async function showBackupDiff(selection?: string): Promise<void> {
+  const backup = requireBackup(selection, "backups diff <number|name>")
+
+  const { files, tables } = await diffBackup(backup)
+  logger.header(`Changes since ${basename(backup)}:`)
+  if (files.length === 0) {
+    logger.log("  No differences")
+    return
+  }
+
+  const marks = { added: "+", removed: "-", changed: "~" } as const
+  for (const file of files) {
+    const sizes =
+      file.status === "added"
+        ? formatBytes(file.currentSize ?? 0)
+        : file.status === "removed"
+          ? formatBytes(file.backupSize ?? 0)
+          : `${formatBytes(file.backupSize ?? 0)} → ${formatBytes(file.currentSize ?? 0)}`
+    logger.log(`  ${marks[file.status]} ${file.path} (${file.status}, ${sizes})`)
+  }
+
+  if (tables.length > 0) {
+    logger.log("")
+    logger.log(`  ${AGENTS_DB} rows (backup → current):`)
+    const width = Math.max(...tables.map((t) => t.table.length))
+    for (const { table, before, after } of tables) {
+      const delta = (after ?? 0) - (before ?? 0)
+      logger.log(`    ${table.padEnd(width)}  ${before ?? "-"} → ${after ?? "-"} (${delta >= 0 ? "+" : ""}${delta})`)
+    }
+  }
+}
+
+/** Newest backup whose agents.db snapshot passes the integrity check */
+async function newestHealthyBackup(): Promise<string | null> {
+  for (const backup of listBackups()) {
+    const healthy = await withBackupContents(backup, async (dir) => {
+      const db = join(dir, AGENTS_DB)
+      return existsSync(db) && checkDatabaseIntegrity(db) === "ok"
+    }).catch(() => false)
+    if (healthy) return backup
+  }
+  return null
+}
+
+/**
+ * Repair a damaged agents database: rebuild it with VACUUM INTO, else restore it from a healthy backup.
+ * Throws when it can't, with the damaged database back in place; doctor reports that as a failed fix.
+ */
+async function repairDatabase(): Promise<void> {
+  logger.banner("1Code Database Repair")
+
+  const db = join(CONFIG.configDir, AGENTS_DB)
+  if (!existsSync(db)) throw new Error(`No database to repair at ${db}`)
+  if (await isProcessRunning(basename(CONFIG.appPath))) {
+    throw new Error("1Code is running. Quit it before repairing its database.")
+  }
+
+  logger.step("Checking database...")
+  const health = inspectDatabase(db)
+  if (!health.error && health.integrity === "ok") {
+    logger.success("Integrity check passed - nothing to repair")
+    return
+  }
+  logger.warn(health.error ?? `integrity_check: ${health.integrity}`)
+
+  // The damaged file and its WAL are kept next to the repaired one, and put back if the repair fails
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19)
+  const damaged = `${db}.damaged-${timestamp}`
+  const extensions = ["", "-wal", "-shm", "-journal"]
+  const setAside = async () => {
+    for (const ext of extensions) {
+      if (existsSync(db + ext)) await sh`mv ${db + ext} ${damaged + ext}`
+    }
+  }
+  const putBack = async () => {
+    for (const ext of extensions) {
+      await sh`rm -f ${db + ext}`.nothrow()
+      if (existsSync(damaged + ext)) await sh`mv ${damaged + ext} ${db + ext}`.nothrow()
+    }
+  }
+  // Swap the damaged database for a replacement; the damaged one is back in place if that fails
+  const swapIn = async (replace: () => Promise<void>) => {
+    try {
+      await setAside()
+      await replace()
+    } catch (err) {
+      await putBack()
+      throw err
+    }
+    logger.log(`    Damaged database kept as ${basename(damaged)}`)
+  }
+
+  logger.step("Rebuilding with VACUUM INTO...")
+  const scratch = scratchDir()
+  try {
+    const rebuilt = join(scratch, "agents.db")
+    const error = vacuumInto(db, rebuilt)
+    if (!error) {
+      // Copy next to the database first, so the swap itself is a rename
+      const repaired = `${db}.repaired-${timestamp}`
+      await sh`cp ${rebuilt} ${repaired}`
+      try {
+        await swapIn(async () => {
+          await sh`mv ${repaired} ${db}`
+        })
+      } finally {
+        await sh`rm -f ${repaired}`.nothrow()
+      }
+      logger.success("Database rebuilt")
+      for (const { table, before, after } of diffTableCounts(health.rowCounts, tableRowCounts(db))) {
+        logger.log(`    ${table}: ${before ?? "-"} → ${after ?? "-"} rows`)
+      }
+      logger.log("  Restart 1Code and check your chat history")
+      return
+    }
+    logger.warn(`Rebuild failed: ${error}`)
+  } finally {
+    await sh`rm -rf ${scratch}`.readOnly().quiet().nothrow()
+  }
+
+  logger.step("Looking for a backup with a healthy database...")
+  const backup = await newestHealthyBackup()
+  if (!backup) throw new Error("No backup holds a healthy database; the damaged file was left untouched")
+  logger.log(`    Newest healthy backup: ${basename(backup)}`)
+  // Unattended runs only replace the database when told to with --yes
+  if (!confirm(`Restore ${AGENTS_DB} from ${basename(backup)}? Changes since then are lost`, { default: false })) {
+    throw new Error("Restore declined (--yes restores without asking); the damaged file was left untouched")
+  }
+
+  await swapIn(async () => {
+    const result = await restoreSettings(backup, [AGENTS_DB])
+    if (!result.success) throw new Error(`Restore failed: ${result.error}; the damaged file was put back`)
+  })
+  logger.success(`${AGENTS_DB} restored from ${basename(backup)}`)
+  logger.log("  Restart 1Code to apply restored settings")
+}
+
+/** List the log files of past runs */
+function showRunLogs(): void {
+  const logs = listRunLogs()
+  if (logs.length === 0) {
+    logger.log("No logs found")
+    return
+  }
+  logger.header(`Logs in ${LOG_DIR}:`)
+  logs.forEach((log, i) => logger.log(`  ${i + 1}. ${basename(log)} (${formatBytes(statSync(log).size)})`))
+}
+
+/** Print a run's log file, the latest one by default */
+function showRunLog(selection = "1"): void {
+  const logs = listRunLogs()
+  const log = /^\d+$/.test(selection)
+    ? logs[parseInt(selection) - 1]
+    : logs.find((l) => basename(l) === basename(selection))
+  if (!log) {
+    logger.error(logs.length === 0 ? "No logs found" : `Log not found: ${selection}`)
+    process.exit(1)
   }
+  process.stdout.write(readFileSync(log, "utf8"))
 }
 
 /** Show help message */
@@ -775,17 +4986,141 @@ Usage:
 Commands:
   install       Install 1Code (default)
   update        Update existing installation (with backup)
-  diagnose      Show settings diagnostics
+  status, check Show installed and latest versions and the changelog in
+                between, without building (exit code 10: update available)
+  schedule enable|disable|status
+                Check for updates with a systemd user timer and notify
+  diagnose      Show settings and agents database diagnostics
+  report [file] Write a support archive (system, versions, diagnostics,
+                last log, package status); redacted unless --no-redact
+  logs [show [n|name]]
+                List the logs of past runs / print one (default: latest)
+  doctor [--fix] Check the installed app (sandbox, native modules, PATH,
+                desktop entry, libraries, database) and fix what it can
+  repair        Rebuild a damaged agents database, or restore it from the
+                newest backup with a healthy copy
   backups       List available settings backups
-  restore       Restore settings from backup
+  backups diff <n|name>
+                Show files (and agents.db rows) changed since a backup
+  backups prune Delete backups outside the retention policy
+  backups pin|unpin <n|name>
+                Keep a backup forever / return it to normal retention
+  backups export <file>
+                Export settings to a .tar.zst/.tar.gz for another machine
+  backups import <file>
+                Add an exported archive to the backups and offer to restore it
+  restore [n|name] [--only <path[,path]>]
+                Restore settings from backup (number from 'backups' or name),
+                optionally only some files; current settings are backed up first
+  patches [list [tag]]
+                Show the built-in and user patches (~/.config/1code-linux/
+                patches) and which apply to a tag (default: the checkout's)
+  bundle create [file] [--version <tag>]
+                Pack the source of the installed (or given) version with its
+                dependencies, Claude binary and build tool caches into one
+                archive for offline installs
+  pin [tag]     Keep update on a version (default: the installed one)
+  unpin         Let update follow the latest release again
+  rollback      Reinstall the previously installed version
+  uninstall     Remove 1Code, its source and the update command
+  config show   Show effective settings and where each comes from
   help          Show this help message
 
+Options (install, update):
+  --format <deb|rpm|appimage|tar>
+                Package format to build and install
+                (default: last used, else native to your distro)
+  --user        Rootless install to ~/.local/opt/1Code (never uses sudo)
+  --system      System-wide install to /opt/1Code (default)
+  --version <tag>
+                Install a specific 1Code version instead of the latest
+  --channel <stable|beta|nightly>
+                Follow release tags (stable, default), tags including
+                prereleases (beta) or main's latest commit (nightly);
+                remembered for later updates (also for status/check)
+  --source <git-url|path>
+                Build from a fork or a local checkout instead of repoUrl;
+                remembered ("default" goes back to repoUrl)
+  --ref <branch|tag|sha>
+                Follow a branch, tag or commit of the source instead of the
+                channel; remembered ("default" or --channel goes back to
+                the channel)
+  --from-bundle <file>
+                Install from a 'bundle create' archive without network
+                access (install only; checksums are verified first)
+  --refresh-deps
+                Re-resolve dependencies to the latest compatible versions
+                (deletes upstream's lockfile) and redo the native rebuild
+                and Claude download; by default the lockfile is kept and
+                unchanged steps are skipped
+
+Options (update):
+  --resume      Continue the last build from the step that failed
+  --from <step> Rerun the build from a step onwards
+  --only <step[,step]>
+                Rerun only these build steps
+                Steps: patch-source, install-deps, update-deps, patch-deps,
+                rebuild-native, download-claude, build, package, switch,
+                install
+
+Options (restore):
+  --only <path[,path]>
+                Restore only these files or directories, relative to the
+                settings directory (e.g. data/agents.db,window-settings.json)
+
+Global options:
+  -y, --yes     Answer yes to every question (except destructive ones)
+  -n, --no      Answer no to every question
+  --non-interactive
+                Take each question's default answer; questions without a
+                safe answer fail with exit code 3
+                (also ONECODE_YES=1, ONECODE_NO=1, ONECODE_NON_INTERACTIVE=1)
+  --dry-run     Print every command that would change the system instead
+                of running it (read-only checks still run)
+  --json        Print one JSON event per line (step-started, step-finished,
+                success, warning, error, log, result); implies
+                --non-interactive unless --yes or --no is given
+  --no-color    Plain text output (also NO_COLOR=1)
+
+Settings (override ~/.config/1code-linux/config.json or .toml,
+which overrides the built-in defaults; environment variables in
+parentheses override the file, flags override both):
+  --repo-url <url>              (ONECODE_REPO_URL)
+  --install-dir <path>          (ONECODE_INSTALL_DIR)
+  --bin-dir <path>              (ONECODE_BIN_DIR)
+  --app-path <path>             (ONECODE_APP_PATH)
+  --sandbox-path <path>         (ONECODE_SANDBOX_PATH)
+  --user-app-dir <path>         (ONECODE_USER_APP_DIR)
+  --config-dir <path>           (ONECODE_CONFIG_DIR)
+  --backup-dir <path>           (ONECODE_BACKUP_DIR)
+  --cache-dir <path>            (ONECODE_CACHE_DIR)
+  --max-backups <n>             (ONECODE_MAX_BACKUPS)
+  --keep-daily-backups <n>      (ONECODE_KEEP_DAILY_BACKUPS)
+  --keep-weekly-backups <n>     (ONECODE_KEEP_WEEKLY_BACKUPS)
+  --max-cached-packages <n>     (ONECODE_MAX_CACHED_PACKAGES)
+
+Options (schedule enable):
+  --interval <when>
+                daily (default), weekly, hourly or a systemd OnCalendar value
+  --auto-update Also install updates unattended while 1Code is closed
+
+Options (backups export):
+  --include-auth
+                Also export auth.dat (only readable with this machine's keyring)
+
+Options (uninstall):
+  --purge       Also delete settings and backups
+  --keep-settings
+                Keep settings and backups without asking
+
 Examples:
   bunx github:CorentinLumineau/1code-linux          # Install
   bunx github:CorentinLumineau/1code-linux update   # Update with backup
   update-1code                                      # Update (after install)
   update-1code diagnose                             # Check settings status
   update-1code restore                              # Restore from backup
+  update-1code update --format appimage             # Switch to the AppImage build
+  update-1code install --version v0.0.20            # Install a specific version
 `)
 }
 
@@ -793,29 +5128,203 @@ Examples:
 // CLI Entry Point
 // ============================================================
 
-const command = process.argv[2] || "install"
+/** Parse command-line flags and positionals */
+function parseCliArgs() {
+  return parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      format: { type: "string" },
+      user: { type: "boolean" },
+      system: { type: "boolean" },
+      version: { type: "string" },
+      purge: { type: "boolean" },
+      "keep-settings": { type: "boolean" },
+      "include-auth": { type: "boolean" },
+      fix: { type: "boolean" },
+      "no-redact": { type: "boolean" },
+      interval: { type: "string" },
+      "auto-update": { type: "boolean" },
+      "refresh-deps": { type: "boolean" },
+      "from-bundle": { type: "string" },
+      channel: { type: "string" },
+      source: { type: "string" },
+      ref: { type: "string" },
+      yes: { type: "boolean", short: "y" },
+      no: { type: "boolean", short: "n" },
+      "non-interactive": { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      json: { type: "boolean" },
+      "no-color": { type: "boolean" },
+      resume: { type: "boolean" },
+      from: { type: "string" },
+      only: { type: "string" },
+      "repo-url": { type: "string" },
+      "install-dir": { type: "string" },
+      "bin-dir": { type: "string" },
+      "app-path": { type: "string" },
+      "sandbox-path": { type: "string" },
+      "user-app-dir": { type: "string" },
+      "config-dir": { type: "string" },
+      "backup-dir": { type: "string" },
+      "cache-dir": { type: "string" },
+      "max-backups": { type: "string" },
+      "keep-daily-backups": { type: "string" },
+      "keep-weekly-backups": { type: "string" },
+      "max-cached-packages": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+    allowPositionals: true,
+  })
+}
+
+let args: ReturnType<typeof parseCliArgs>
+try {
+  args = parseCliArgs()
+} catch (err) {
+  logger.error(err instanceof Error ? err.message : String(err))
+  logger.log("Run with --help for usage information")
+  process.exit(1)
+}
+
+const { values: options, positionals } = args
+const command = options.help ? "help" : positionals[0] || "install"
+
+configureOutput(options)
+loadUserConfig(options)
+applySource(options.source, command)
+configurePrompts(options)
+
+// Reading logs or help is not worth a log file of its own
+if (command !== "logs" && command !== "help") startRunLog(command)
+
+if (options["dry-run"]) {
+  useRunner(dryRunRunner)
+  logger.warn("Dry run: commands that change the system are printed, not run")
+}
 
 switch (command) {
   case "install":
-    await install()
+    await install(options)
     break
   case "update":
-    await update()
+    await update(options)
     break
   case "diagnose":
   case "diag":
     await diagSettings()
     break
+  case "repair":
+    await repairDatabase().catch((err) => {
+      logger.error(err instanceof Error ? err.message : String(err))
+      process.exit(1)
+    })
+    break
+  case "doctor":
+    await doctor(options)
+    break
+  case "report":
+    await createReport(positionals[1], { redact: !options["no-redact"] })
+    break
   case "backups":
   case "list-backups":
-    showBackups()
+    switch (positionals[1] ?? "list") {
+      case "list":
+        showBackups()
+        break
+      case "diff":
+        await showBackupDiff(positionals[2])
+        break
+      case "prune":
+        await pruneBackups()
+        break
+      case "pin":
+      case "unpin":
+        await setBackupPinned(positionals[2], positionals[1] === "pin")
+        break
+      case "export":
+        await exportSettings(positionals[2], options["include-auth"])
+        break
+      case "import":
+        await importSettings(positionals[2])
+        break
+      default:
+        logger.error(`Unknown backups command: ${positionals[1]}`)
+        process.exit(1)
+    }
     break
   case "restore":
-    await interactiveRestore()
+    await interactiveRestore(positionals[1], options.only)
+    break
+  case "status":
+  case "check":
+    await status(options)
+    break
+  case "schedule":
+    switch (positionals[1] ?? "status") {
+      case "enable":
+        await enableSchedule(options)
+        break
+      case "disable":
+        await disableSchedule()
+        break
+      case "status":
+        await showSchedule()
+        break
+      default:
+        logger.error(`Unknown schedule command: ${positionals[1]}`)
+        process.exit(1)
+    }
+    break
+  case "scheduled-check":
+    await scheduledCheck(options)
+    break
+  case "patches":
+    if ((positionals[1] ?? "list") !== "list") {
+      logger.error(`Unknown patches command: ${positionals[1]}`)
+      process.exit(1)
+    }
+    await listPatches(positionals[2])
+    break
+  case "bundle":
+    if (positionals[1] !== "create") {
+      logger.error(positionals[1] ? `Unknown bundle command: ${positionals[1]}` : "Usage: bundle create [file]")
+      process.exit(1)
+    }
+    await createBundle(positionals[2], options)
+    break
+  case "pin":
+    await pinVersion(positionals[1])
+    break
+  case "unpin":
+    await unpinVersion()
+    break
+  case "rollback":
+    await rollback(options)
+    break
+  case "uninstall":
+    await uninstall(options)
+    break
+  case "config":
+    if ((positionals[1] ?? "show") !== "show") {
+      logger.error(`Unknown config command: ${positionals[1]}`)
+      process.exit(1)
+    }
+    showConfig()
+    break
+  case "logs":
+    switch (positionals[1] ?? "list") {
+      case "list":
+        showRunLogs()
+        break
+      case "show":
+        showRunLog(positionals[2])
+        break
+      default:
+        logger.error(`Unknown logs command: ${positionals[1]}`)
+        process.exit(1)
+    }
     break
   case "help":
-  case "--help":
-  case "-h":
     showHelp()
     break
   default: